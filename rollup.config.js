@@ -93,4 +93,30 @@ export default [
     },
     plugins: [dts()],
   },
+  // Testing ES Module build
+  {
+    input: 'src/testing/index.ts',
+    output: {
+      file: 'dist/pocketbase-testing.es.mjs',
+      format: 'es',
+      sourcemap: true,
+    },
+    plugins: [
+      nodeResolve(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+      }),
+      terser(),
+    ],
+  },
+  // Testing type definitions
+  {
+    input: 'src/testing/index.ts',
+    output: {
+      file: 'dist/pocketbase-testing.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+  },
 ];
@@ -1,6 +1,8 @@
 import type { BaseAuthStore } from './stores/BaseAuthStore';
 import type { RealtimeService } from './services/RealtimeService';
-import type { SendOptions } from './tools/options';
+import type { ClientCloneOptions, SendOptions } from './tools/options';
+import type { Instrumentation } from './tools/instrumentation';
+import type { Transport } from './tools/transport';
 
 /**
  * Client interface that defines the core PocketBase client contract.
@@ -21,6 +23,16 @@ export interface Client {
    */
   realtime: RealtimeService;
 
+  /**
+   * The transport of the HTTP requests and the realtime stream.
+   */
+  transport: Transport;
+
+  /**
+   * The lifecycle events dispatcher.
+   */
+  instrumentation: Instrumentation;
+
   /**
    * Sends an API request.
    */
@@ -30,5 +42,10 @@ export interface Client {
    * Builds a full URL from the given path.
    */
   buildURL(path: string): string;
+
+  /**
+   * Returns a client with isolated auth that shares the transport and configuration.
+   */
+  clone(options?: ClientCloneOptions): Client;
 }
 
@@ -1,3 +1,39 @@
+/**
+ * Error kind discriminator.
+ *
+ * - `not_found` - 404 response
+ * - `forbidden` - 403 response
+ * - `unauthorized` - 401 response
+ * - `validation` - 400 response (usually with field errors)
+ * - `rate_limited` - 429 response
+ * - `server` - 5xx response
+ * - `network` - the request didn't reach the server (the fetch call failed with a `TypeError`)
+ * - `abort` - the request was cancelled
+ * - `timeout` - the request timed out
+ * - `circuit_open` - the request wasn't sent because the circuit breaker is open
+ * - `unknown` - any other response status or error (e.g. thrown by a middleware)
+ */
+export type ClientErrorKind =
+  | 'not_found'
+  | 'forbidden'
+  | 'unauthorized'
+  | 'validation'
+  | 'rate_limited'
+  | 'server'
+  | 'network'
+  | 'abort'
+  | 'timeout'
+  | 'circuit_open'
+  | 'unknown';
+
+/**
+ * Single field validation error (e.g. `{ code: 'validation_required', message: '...' }`).
+ */
+export interface FieldError {
+  code: string;
+  message: string;
+}
+
 /**
  * ClientResponseError is a custom Error class that normalizes errors
  * from the PocketBase API response.
@@ -7,13 +43,21 @@ export class ClientResponseError extends Error {
   status: number = 0;
   response: Record<string, unknown> = {};
   isAbort: boolean = false;
+  isTimeout: boolean = false;
+  isCircuitOpen: boolean = false;
+  requestId: string = '';
+  endpoint: string = '';
   originalError: Error | null = null;
 
+  // explicit kind that can't be derived from the status and flags (e.g. `unknown` with status 0)
+  private _kind: ClientErrorKind | null = null;
+
   constructor(errData?: unknown) {
     super('');
 
     // Set the prototype explicitly for proper instanceof checks
-    Object.setPrototypeOf(this, ClientResponseError.prototype);
+    // (new.target keeps the prototype of the subclasses)
+    Object.setPrototypeOf(this, new.target.prototype);
 
     this.name = 'ClientResponseError';
 
@@ -25,7 +69,11 @@ export class ClientResponseError extends Error {
 
     // Ensure message fallback
     if (!this.message) {
-      if (this.isAbort) {
+      if (this.isTimeout) {
+        this.message = 'The request timed out.';
+      } else if (this.isCircuitOpen) {
+        this.message = 'The service is unavailable (the circuit breaker is open).';
+      } else if (this.isAbort) {
         this.message = 'The request was autocancelled.';
       } else if (this.status !== 0) {
         this.message = `Response status: ${this.status}`;
@@ -35,10 +83,63 @@ export class ClientResponseError extends Error {
     }
   }
 
+  /**
+   * Returns the error kind discriminator.
+   */
+  get kind(): ClientErrorKind {
+    return this._kind || errorKind(this.status, this.isAbort, this.isTimeout, this.isCircuitOpen);
+  }
+
+  /**
+   * Returns the field validation errors from the response `data`
+   * (e.g. `{ title: { code: 'validation_required', message: '...' } }`).
+   */
+  fieldErrors(): Record<string, FieldError> {
+    const result: Record<string, FieldError> = {};
+
+    const data = this.response?.data;
+    if (data === null || typeof data !== 'object') {
+      return result;
+    }
+
+    for (const [field, value] of Object.entries(data as Record<string, unknown>)) {
+      const err = value as Record<string, unknown> | null;
+      if (err !== null && typeof err === 'object' && typeof err.code === 'string') {
+        result[field] = {
+          code: err.code,
+          message: typeof err.message === 'string' ? err.message : '',
+        };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks whether the error matches the specified response status
+   * (e.g. `404`), error kind (e.g. `'not_found'`) or field error code
+   * (e.g. `'validation_required'`).
+   */
+  is(code: number | string): boolean {
+    if (typeof code === 'number') {
+      return this.status === code;
+    }
+
+    return (
+      this.kind === code ||
+      Object.values(this.fieldErrors()).some((err) => err.code === code)
+    );
+  }
+
   private initFromObject(data: Record<string, unknown>): void {
     this.url = typeof data.url === 'string' ? data.url : '';
     this.status = typeof data.status === 'number' ? data.status : 0;
     this.isAbort = !!data.isAbort;
+    this.isTimeout = !!data.isTimeout;
+    this.isCircuitOpen = !!data.isCircuitOpen;
+    this.requestId = typeof data.requestId === 'string' ? data.requestId : '';
+    this.endpoint = typeof data.endpoint === 'string' ? data.endpoint : '';
+    this._kind = isErrorKind(data.kind) ? data.kind : null;
 
     if (data.response !== null && typeof data.response === 'object') {
       this.response = data.response as Record<string, unknown>;
@@ -58,13 +159,61 @@ export class ClientResponseError extends Error {
   }
 
   /**
-   * Creates a new ClientResponseError from the given error.
+   * Creates a new ClientResponseError from the given error
+   * (or from a plain object, e.g. the result of `toJSON()`).
+   *
+   * The returned error is an instance of the subclass matching its kind
+   * (e.g. `NotFoundError` for 404 responses). Only the failed fetch calls
+   * (`TypeError`) are network errors, any other `Error` has the `unknown` kind
+   * (with the error as `originalError`).
    */
   static fromError(err: unknown): ClientResponseError {
     if (err instanceof ClientResponseError) {
-      return err;
+      if (err.constructor !== ClientResponseError) {
+        return err;
+      }
+
+      const errorClass = errorClassFor(err.kind);
+      if (errorClass === ClientResponseError) {
+        return err;
+      }
+
+      return new errorClass({ ...err.toJSON(), originalError: err.originalError });
+    }
+
+    if (err instanceof Error) {
+      const isAbort = err.name === 'AbortError';
+      const isTimeout = err.name === 'TimeoutError';
+
+      return ClientResponseError.fromError({
+        message: err.message,
+        isAbort,
+        isTimeout,
+        kind: isAbort || isTimeout || err instanceof TypeError ? undefined : 'unknown',
+        originalError: err,
+      });
     }
-    return new ClientResponseError(err);
+
+    if (err !== null && typeof err === 'object') {
+      const data = err as Record<string, unknown>;
+      const errorClass = errorClassFor(
+        isErrorKind(data.kind)
+          ? data.kind
+          : errorKind(
+              typeof data.status === 'number' ? data.status : 0,
+              !!data.isAbort,
+              !!data.isTimeout,
+              !!data.isCircuitOpen
+            )
+      );
+
+      return new errorClass(data);
+    }
+
+    return new ClientResponseError({
+      message: err === null || err === undefined ? undefined : String(err),
+      kind: 'unknown',
+    });
   }
 
   /**
@@ -74,9 +223,184 @@ export class ClientResponseError extends Error {
     return {
       url: this.url,
       status: this.status,
+      kind: this.kind,
+      message: this.message,
       response: this.response,
       isAbort: this.isAbort,
+      isTimeout: this.isTimeout,
+      isCircuitOpen: this.isCircuitOpen,
+      requestId: this.requestId,
+      endpoint: this.endpoint,
       originalError: this.originalError,
     };
   }
 }
+
+/**
+ * Error for 404 responses.
+ */
+export class NotFoundError extends ClientResponseError {
+  constructor(errData?: unknown) {
+    super(errData);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Error for 403 responses.
+ */
+export class ForbiddenError extends ClientResponseError {
+  constructor(errData?: unknown) {
+    super(errData);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Error for 401 responses.
+ */
+export class UnauthorizedError extends ClientResponseError {
+  constructor(errData?: unknown) {
+    super(errData);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Error for 400 responses (see `fieldErrors()`).
+ */
+export class ValidationError extends ClientResponseError {
+  constructor(errData?: unknown) {
+    super(errData);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Error for 429 responses.
+ */
+export class RateLimitedError extends ClientResponseError {
+  constructor(errData?: unknown) {
+    super(errData);
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * Error for requests that didn't reach the server.
+ */
+export class NetworkError extends ClientResponseError {
+  constructor(errData?: unknown) {
+    super(errData);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Error for cancelled requests.
+ */
+export class AbortedError extends ClientResponseError {
+  constructor(errData?: unknown) {
+    super(errData);
+    this.name = 'AbortedError';
+  }
+}
+
+/**
+ * Error for timed out requests.
+ */
+export class TimeoutError extends ClientResponseError {
+  constructor(errData?: unknown) {
+    super(errData);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Error for requests rejected by the open circuit breaker.
+ */
+export class CircuitOpenError extends ClientResponseError {
+  constructor(errData?: unknown) {
+    super(errData);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const errorKinds: ClientErrorKind[] = [
+  'not_found',
+  'forbidden',
+  'unauthorized',
+  'validation',
+  'rate_limited',
+  'server',
+  'network',
+  'abort',
+  'timeout',
+  'circuit_open',
+  'unknown',
+];
+
+function isErrorKind(kind: unknown): kind is ClientErrorKind {
+  return errorKinds.includes(kind as ClientErrorKind);
+}
+
+function errorKind(
+  status: number,
+  isAbort: boolean,
+  isTimeout: boolean,
+  isCircuitOpen = false
+): ClientErrorKind {
+  if (isTimeout) {
+    return 'timeout';
+  }
+
+  if (isCircuitOpen) {
+    return 'circuit_open';
+  }
+
+  if (isAbort) {
+    return 'abort';
+  }
+
+  switch (status) {
+    case 0:
+      return 'network';
+    case 400:
+      return 'validation';
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 429:
+      return 'rate_limited';
+  }
+
+  return status >= 500 ? 'server' : 'unknown';
+}
+
+function errorClassFor(kind: ClientErrorKind): typeof ClientResponseError {
+  switch (kind) {
+    case 'not_found':
+      return NotFoundError;
+    case 'forbidden':
+      return ForbiddenError;
+    case 'unauthorized':
+      return UnauthorizedError;
+    case 'validation':
+      return ValidationError;
+    case 'rate_limited':
+      return RateLimitedError;
+    case 'network':
+      return NetworkError;
+    case 'abort':
+      return AbortedError;
+    case 'timeout':
+      return TimeoutError;
+    case 'circuit_open':
+      return CircuitOpenError;
+  }
+
+  return ClientResponseError;
+}
@@ -1,8 +1,16 @@
 import type { Client } from './Client';
 import type { RecordModel } from './types';
-import type { SendOptions } from './tools/options';
+import type {
+  SendOptions,
+  ClientOptions,
+  RetryOptions,
+  AutoCancellationMode,
+  SendResponseType,
+  ClientCloneOptions,
+} from './tools/options';
+import { knownSendOptions } from './tools/options';
 import { ClientResponseError } from './ClientResponseError';
-import { BaseAuthStore, LocalAuthStore } from './stores';
+import { BaseAuthStore, LocalAuthStore, MemoryAuthStore } from './stores';
 import {
   RecordService,
   RealtimeService,
@@ -15,7 +23,24 @@ import {
   HealthService,
   BatchService,
 } from './services';
+import { OfflineQueue } from './offline';
+import { ResponseCache } from './tools/cache';
+import { RequestLimiter } from './tools/limiter';
+import { uploadProgressFetch } from './tools/upload';
 import { filter as filterHelper } from './tools/filter';
+import { randomRequestId } from './tools/requestId';
+import { resolveRetryPolicy, canRetry, retryDelay, sleep } from './tools/retry';
+import { linkSignals, trackStream } from './tools/signal';
+import { composeMiddlewares } from './tools/middleware';
+import type { Middleware, NextFunc, SendRequest, SendResponse } from './tools/middleware';
+import { AuthRefresher } from './tools/authRefresh';
+import type { AutoRefreshOptions } from './tools/authRefresh';
+import { EndpointPool } from './tools/endpoints';
+import { Instrumentation } from './tools/instrumentation';
+import { CircuitBreaker } from './tools/breaker';
+import { FetchTransport } from './tools/transport';
+import type { Transport } from './tools/transport';
+import type { RequestEventBase } from './tools/instrumentation';
 
 /**
  * BeforeSend hook type.
@@ -37,11 +62,6 @@ export type AfterSendFunc = (
  * PocketBase is the main client class for interacting with the PocketBase API.
  */
 export default class PocketBase implements Client {
-  /**
-   * The base URL of the PocketBase instance.
-   */
-  baseURL: string;
-
   /**
    * The auth store instance.
    */
@@ -87,6 +107,46 @@ export default class PocketBase implements Client {
    */
   readonly health: HealthService;
 
+  /**
+   * The offline mutation queue (disabled by default).
+   */
+  readonly offline: OfflineQueue;
+
+  /**
+   * The in-memory response cache for GET requests sent with the `cache` option.
+   */
+  readonly cache: ResponseCache;
+
+  /**
+   * The concurrent requests limiter (unlimited by default).
+   */
+  readonly limiter: RequestLimiter;
+
+  /**
+   * The endpoints (primary and replicas) the requests are routed to.
+   */
+  readonly endpoints: EndpointPool;
+
+  /**
+   * The transport of the HTTP requests and the realtime stream.
+   */
+  transport: Transport;
+
+  /**
+   * Name of the correlation id header (see `ClientOptions.requestIdHeader`).
+   */
+  requestIdHeader: string;
+
+  /**
+   * Opt-in circuit breaker (see `breaker.enable()`).
+   */
+  readonly breaker: CircuitBreaker;
+
+  /**
+   * Request and realtime lifecycle events (e.g. for metrics and tracing).
+   */
+  readonly instrumentation: Instrumentation;
+
   /**
    * Hook that is invoked right before sending a request.
    */
@@ -97,13 +157,43 @@ export default class PocketBase implements Client {
    */
   afterSend?: AfterSendFunc;
 
-  private _autoCancellation = true;
+  /**
+   * Default retry policy for all requests.
+   * Can be overridden per request with `SendOptions.retry`.
+   */
+  retry: RetryOptions;
+
+  /**
+   * Default request timeout in ms (`0` means no timeout).
+   * Can be overridden per request with `SendOptions.timeout`.
+   */
+  timeout: number;
+
+  private _autoCancellation: AutoCancellationMode = true;
+  private _pendingRequests: Map<string, Promise<unknown>> = new Map();
   private _cancelControllers: Map<string, AbortController> = new Map();
   private _recordServices: Map<string, RecordService> = new Map();
+  private _middlewares: Middleware[] = [];
+  private _authRefresher: AuthRefresher | null = null;
+  private _scopeSignals: AbortSignal[] = [];
+  private _headers: Record<string, string> = {};
 
-  constructor(baseURL = '/', authStore?: BaseAuthStore) {
-    this.baseURL = baseURL.replace(/\/+$/, '');
+  constructor(
+    baseURL: string | string[] = '/',
+    authStore?: BaseAuthStore,
+    options: ClientOptions = {}
+  ) {
+    this.endpoints = new EndpointPool(this, Array.isArray(baseURL) ? baseURL : [baseURL], {
+      policy: options.routing,
+      recoveryInterval: options.recoveryInterval,
+      failoverMethods: options.failoverMethods,
+    });
     this.authStore = authStore || new LocalAuthStore();
+    this.transport = options.transport || new FetchTransport();
+    this.requestIdHeader = options.requestIdHeader || '';
+    this.retry = options.retry || {};
+    this.timeout = options.timeout || 0;
+    this._autoCancellation = options.autoCancellation ?? true;
 
     // Initialize services
     this.realtime = new RealtimeService(this);
@@ -114,6 +204,24 @@ export default class PocketBase implements Client {
     this.backups = new BackupService(this);
     this.crons = new CronService(this);
     this.health = new HealthService(this);
+    this.offline = new OfflineQueue(this);
+    this.cache = new ResponseCache(this);
+    this.limiter = new RequestLimiter(options.maxConcurrentRequests);
+    this.instrumentation = new Instrumentation();
+    this.breaker = new CircuitBreaker(this);
+  }
+
+  /**
+   * The base URL of the PocketBase instance (the active endpoint).
+   *
+   * Assigning a new value replaces all endpoints.
+   */
+  get baseURL(): string {
+    return this.endpoints.active;
+  }
+
+  set baseURL(url: string) {
+    this.endpoints.setURLs([url]);
   }
 
   /**
@@ -131,6 +239,87 @@ export default class PocketBase implements Client {
     return service as RecordService<T>;
   }
 
+  /**
+   * Returns a scoped client whose requests are all aborted when the signal
+   * is aborted (e.g. to cancel all requests of a page on navigation).
+   *
+   * The scoped client shares the auth store and all other configuration
+   * and state with this client, but has its own copy of the middlewares.
+   */
+  withSignal(signal: AbortSignal): PocketBase {
+    const client = this.derive();
+    client._scopeSignals = [...this._scopeSignals, signal];
+    return client;
+  }
+
+  /**
+   * Returns a lightweight client with isolated auth (e.g. to send a request
+   * as a superuser from a server-side user handler).
+   *
+   * The clone shares the hooks (unless reassigned on the clone), cache,
+   * limiter and all other configuration with this client but has its own
+   * auth store (an empty in-memory one by default), copy of the middlewares,
+   * auth refresher, realtime connection, offline queue and auto cancellation
+   * state. The clone `headers` are sent with every request.
+   */
+  clone(options: ClientCloneOptions = {}): PocketBase {
+    const client = this.derive();
+
+    Object.assign(client, {
+      authStore: options.authStore || new MemoryAuthStore(),
+      realtime: new RealtimeService(client),
+      offline: new OfflineQueue(client),
+      _headers: { ...this._headers, ...options.headers },
+      _pendingRequests: new Map(),
+      _cancelControllers: new Map(),
+      _authRefresher: null,
+    });
+
+    if (options.baseURL !== undefined) {
+      Object.assign(client, {
+        endpoints: new EndpointPool(client, [options.baseURL], {
+          policy: this.endpoints.policy,
+          recoveryInterval: this.endpoints.recoveryInterval,
+          failoverMethods: this.endpoints.failoverMethods,
+        }),
+      });
+    }
+
+    return client;
+  }
+
+  /**
+   * Returns a clone of the client authenticated with the specified token.
+   */
+  asUser(token: string, record: RecordModel | null = null): PocketBase {
+    const client = this.clone();
+    client.authStore.save(token, record);
+    return client;
+  }
+
+  /**
+   * Creates a client that inherits from this one (sharing its
+   * configuration and state) with its own services instances and
+   * middlewares list (so that `use()` doesn't affect this client).
+   */
+  private derive(): PocketBase {
+    const client = Object.create(this) as PocketBase;
+
+    Object.assign(client, {
+      files: new FileService(client),
+      collections: new CollectionService(client),
+      logs: new LogService(client),
+      settings: new SettingsService(client),
+      backups: new BackupService(client),
+      crons: new CronService(client),
+      health: new HealthService(client),
+      _recordServices: new Map(),
+      _middlewares: [...this._middlewares],
+    });
+
+    return client;
+  }
+
   /**
    * Creates a new batch instance.
    */
@@ -147,9 +336,42 @@ export default class PocketBase implements Client {
 
   /**
    * Enables or disables auto cancellation for pending duplicated requests.
+   *
+   * With `'dedupe'`, instead of cancelling each other, identical in-flight
+   * GET requests (same url, query, headers and response affecting options)
+   * share a single fetch call and parsed result, and the other requests are
+   * not auto cancelled.
+   */
+  autoCancellation(mode: AutoCancellationMode): this {
+    this._autoCancellation = mode;
+    return this;
+  }
+
+  /**
+   * Enables (or disables with `false`) the automatic auth token refresh.
+   *
+   * When enabled, the token is refreshed (via `authRefresh` of the collection
+   * it belongs to) shortly before its expiration and requests that fail
+   * with 401 are replayed once after a successful refresh.
+   * The auth store is cleared if the server rejects the refresh.
+   *
+   * On a scoped client (see `withSignal`) this replaces only its own
+   * refresher - the one inherited from the parent client is left active.
    */
-  autoCancellation(enable: boolean): this {
-    this._autoCancellation = enable;
+  autoRefresh(options: AutoRefreshOptions | boolean = true): this {
+    // don't dispose the refresher inherited from the parent client
+    if (Object.prototype.hasOwnProperty.call(this, '_authRefresher')) {
+      this._authRefresher?.dispose();
+    }
+    this._authRefresher = null;
+
+    if (options !== false) {
+      this._authRefresher = new AuthRefresher(
+        this,
+        options === true ? {} : options
+      );
+    }
+
     return this;
   }
 
@@ -180,7 +402,14 @@ export default class PocketBase implements Client {
    * Builds a full URL from the given path.
    */
   buildURL(path: string): string {
-    let url = this.baseURL;
+    return this.joinURL(this.baseURL, path);
+  }
+
+  /**
+   * Appends the path to the specified base url.
+   */
+  private joinURL(base: string, path: string): string {
+    let url = base;
 
     if (path) {
       // Ensure path starts with /
@@ -197,24 +426,321 @@ export default class PocketBase implements Client {
    * Sends an API request.
    */
   async send<T = unknown>(path: string, options: SendOptions = {}): Promise<T> {
+    const request = this.buildRequest(path, options);
+
+    // Share identical in-flight GET requests
+    // (requests with a custom fetch function can't be compared)
+    if (
+      this._autoCancellation === 'dedupe' &&
+      options.requestKey === undefined &&
+      !options.signal &&
+      !options.fetch &&
+      !this._scopeSignals.length &&
+      options.responseType !== 'stream' &&
+      options.responseType !== 'response' &&
+      (request.init.method as string).toUpperCase() === 'GET'
+    ) {
+      const dedupeKey = this.dedupeKey(request);
+
+      let pending = this._pendingRequests.get(dedupeKey);
+      if (!pending) {
+        pending = this.execute(request).finally(() => {
+          this._pendingRequests.delete(dedupeKey);
+        });
+        this._pendingRequests.set(dedupeKey, pending);
+      }
+
+      return pending as Promise<T>;
+    }
+
+    return this.execute<T>(request);
+  }
+
+  /**
+   * Returns the key of the identical in-flight requests (same method, url,
+   * headers and response affecting options).
+   *
+   * The generated correlation id header is ignored.
+   */
+  private dedupeKey(request: SendRequest): string {
+    const { options } = request;
+    const headers = Object.entries(request.init.headers as Record<string, string>)
+      .filter(([name]) => name !== this.requestIdHeader)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return JSON.stringify([
+      (request.init.method as string).toUpperCase(),
+      request.url,
+      headers,
+      options.responseType || 'auto',
+      options.timeout ?? this.timeout,
+      options.retry ?? null,
+      options.cache ?? null,
+    ]);
+  }
+
+  /**
+   * Executes a built request through the middleware chain.
+   */
+  private async execute<T = unknown>(request: SendRequest): Promise<T> {
+    const { options } = request;
+
+    // Handle request cancellation
+    const requestKey = this.requestKeyFor(request);
+
+    let cancelController: AbortController | undefined;
+    if (requestKey !== null) {
+      // Cancel any existing request with the same key
+      this.cancelRequest(requestKey);
+
+      // Create new abort controller
+      cancelController = new AbortController();
+      this._cancelControllers.set(requestKey, cancelController);
+    }
+
+    // Compose the cancellation sources (requestKey, caller and scope signals and timeout)
+    const requestController = new AbortController();
+    const unlinkSignals = linkSignals(requestController, [
+      cancelController?.signal,
+      options.signal,
+      ...this._scopeSignals,
+    ]);
+    request.init.signal = requestController.signal;
+
+    const timeout = options.timeout ?? this.timeout;
+    const timeoutId =
+      timeout > 0
+        ? setTimeout(() => {
+            requestController.abort(
+              new DOMException('The request timed out.', 'TimeoutError')
+            );
+          }, timeout)
+        : undefined;
+
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      unlinkSignals();
+
+      // Clean up controller
+      if (requestKey !== null && this._cancelControllers.get(requestKey) === cancelController) {
+        this._cancelControllers.delete(requestKey);
+      }
+    };
+
+    // streamed bodies keep the signals linked until they are fully read
+    let streaming = false;
+
+    const started = Date.now();
+    const eventBase = this.requestEventBase(request);
+    this.instrumentation.emit({ ...eventBase, type: 'request:start' });
+
+    try {
+      const handler = composeMiddlewares(
+        this.middlewareChain(),
+        (req) => this.dispatch(req)
+      );
+
+      let result: SendResponse;
+      try {
+        result = await handler(request);
+      } catch (err) {
+        throw ClientResponseError.fromError(err);
+      }
+
+      // Handle error responses
+      if (!result.response.ok) {
+        throw ClientResponseError.fromError({
+          url: result.response.url || request.url,
+          status: result.response.status,
+          response: result.data as Record<string, unknown>,
+          requestId: eventBase.requestId || '',
+          endpoint: result.endpoint || '',
+        });
+      }
+
+      this.instrumentation.emit({
+        ...eventBase,
+        type: 'request:response',
+        status: result.response.status,
+        endpoint: result.endpoint || null,
+        duration: Date.now() - started,
+        timestamp: Date.now(),
+      });
+
+      const stream =
+        result.data instanceof Response
+          ? result.data.body
+          : options.responseType === 'stream' && result.data instanceof ReadableStream
+            ? result.data
+            : null;
+
+      if (stream) {
+        // the timeout covers the request until its headers arrive (the body is
+        // read at the caller pace) - only the cancellation signals stay linked
+        clearTimeout(timeoutId);
+        streaming = true;
+
+        const body = trackStream(stream, requestController.signal, cleanup);
+        return (result.data instanceof Response ? this.withBody(result.data, body) : body) as T;
+      }
+
+      return result.data as T;
+    } catch (err) {
+      const error = err as ClientResponseError;
+      const duration = Date.now() - started;
+
+      if (eventBase.requestId && !error.requestId) {
+        error.requestId = eventBase.requestId;
+      }
+
+      if (!error.endpoint) {
+        error.endpoint = this.endpoints.endpointFor(error.url || request.url) || '';
+      }
+
+      this.instrumentation.emit(
+        error.isAbort || error.isTimeout
+          ? {
+              ...eventBase,
+              type: 'request:abort',
+              isTimeout: error.isTimeout,
+              duration,
+              timestamp: Date.now(),
+            }
+          : {
+              ...eventBase,
+              type: 'request:error',
+              status: error.status,
+              kind: error.kind,
+              endpoint: error.endpoint || null,
+              duration,
+              error,
+              timestamp: Date.now(),
+            }
+      );
+
+      throw err;
+    } finally {
+      if (!streaming) {
+        cleanup();
+      }
+    }
+  }
+
+  /**
+   * Returns the auto cancellation key of the request (if any).
+   */
+  private requestKeyFor(request: SendRequest): string | null {
+    const { requestKey } = request.options;
+
+    if (requestKey === undefined && this._autoCancellation === true) {
+      return `${request.init.method} ${request.path}`;
+    }
+
+    return requestKey ?? null;
+  }
+
+  /**
+   * Returns the correlation id of the request (if any).
+   */
+  private requestIdFor(request: SendRequest): string | null {
+    if (!this.requestIdHeader) {
+      return null;
+    }
+
+    return (request.init.headers as Record<string, string>)[this.requestIdHeader] || null;
+  }
+
+  /**
+   * Returns the common instrumentation event fields of the request.
+   */
+  private requestEventBase(request: SendRequest): RequestEventBase {
+    return {
+      method: ((request.init.method as string) || 'GET').toUpperCase(),
+      path: request.path,
+      url: request.url,
+      requestKey: this.requestKeyFor(request),
+      requestId: this.requestIdFor(request),
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Registers a middleware that wraps every request sent by the client.
+   *
+   * Middlewares are invoked in registration order (the first registered
+   * one is the outermost). The legacy `beforeSend` and `afterSend` hooks
+   * are applied after all registered middlewares.
+   *
+   * Returns a removal function that you can call to unregister the middleware.
+   */
+  use(middleware: Middleware): () => void {
+    this._middlewares.push(middleware);
+
+    return () => {
+      const index = this._middlewares.indexOf(middleware);
+      if (index !== -1) {
+        this._middlewares.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Returns the full list of middlewares applied to a request
+   * (the internal ones wrap the user registered middlewares).
+   */
+  private middlewareChain(): Middleware[] {
+    const middlewares: Middleware[] = [this.cache.middleware];
+
+    if (this.offline.enabled) {
+      middlewares.push(this.offline.middleware);
+    }
+
+    if (this.breaker.enabled) {
+      middlewares.push(this.breaker.middleware);
+    }
+
+    if (this._authRefresher) {
+      middlewares.push(this._authRefresher.middleware);
+    }
+
+    middlewares.push(this.endpoints.middleware);
+
+    middlewares.push(...this._middlewares, (request, next) => this.hooksMiddleware(request, next));
+
+    return middlewares;
+  }
+
+  /**
+   * Builds the url and fetch options of a request from the send options.
+   */
+  private buildRequest(path: string, options: SendOptions): SendRequest {
     // Build the request URL
-    let url = this.buildURL(path);
+    let url =
+      options.baseURL !== undefined
+        ? this.joinURL(options.baseURL.replace(/\/+$/, ''), path)
+        : this.buildURL(path);
 
     // Prepare fetch options
-    const fetchOptions: RequestInit = {
+    const init: RequestInit = {
       method: (options.method as string) || 'GET',
       headers: {},
     };
+    const headers = init.headers as Record<string, string>;
 
     // Add auth header if authenticated
     if (this.authStore.token) {
-      (fetchOptions.headers as Record<string, string>)['Authorization'] =
-        this.authStore.token;
+      headers['Authorization'] = this.authStore.token;
     }
 
-    // Merge custom headers
+    // Merge the client and custom headers
+    Object.assign(headers, this._headers);
     if (options.headers) {
-      Object.assign(fetchOptions.headers as Record<string, string>, options.headers);
+      Object.assign(headers, options.headers);
+    }
+
+    // Add the correlation id (unless explicitly set)
+    if (this.requestIdHeader && !headers[this.requestIdHeader]) {
+      headers[this.requestIdHeader] = randomRequestId();
     }
 
     // Handle query parameters
@@ -237,7 +763,7 @@ export default class PocketBase implements Client {
     // Handle body
     if (options.body !== undefined) {
       if (options.body instanceof FormData) {
-        fetchOptions.body = options.body;
+        init.body = options.body;
         // Don't set Content-Type for FormData - let the browser set it with boundary
       } else if (
         options.body !== null &&
@@ -245,115 +771,260 @@ export default class PocketBase implements Client {
         this.hasFileFields(options.body as Record<string, unknown>)
       ) {
         // Convert to FormData if there are file fields
-        fetchOptions.body = this.objectToFormData(
+        init.body = this.objectToFormData(
           options.body as Record<string, unknown>
         );
       } else {
-        (fetchOptions.headers as Record<string, string>)['Content-Type'] =
-          'application/json';
-        fetchOptions.body = JSON.stringify(options.body);
+        headers['Content-Type'] = 'application/json';
+        init.body = JSON.stringify(options.body);
       }
     }
 
     // Copy additional fetch options
-    const knownOptions = [
-      'method',
-      'headers',
-      'body',
-      'query',
-      'requestKey',
-      'fetch',
-    ];
     for (const [key, value] of Object.entries(options)) {
-      if (!knownOptions.includes(key) && value !== undefined) {
-        (fetchOptions as Record<string, unknown>)[key] = value;
+      if (!knownSendOptions.includes(key) && value !== undefined) {
+        (init as Record<string, unknown>)[key] = value;
       }
     }
 
-    // Handle request cancellation
-    let requestKey = options.requestKey;
-    if (requestKey === undefined && this._autoCancellation) {
-      requestKey = `${fetchOptions.method} ${path}`;
+    // Forward the native fetch cache mode
+    if (typeof options.cache === 'string') {
+      init.cache = options.cache;
     }
 
-    if (requestKey !== null && requestKey !== undefined) {
-      // Cancel any existing request with the same key
-      this.cancelRequest(requestKey);
-
-      // Create new abort controller
-      const controller = new AbortController();
-      this._cancelControllers.set(requestKey, controller);
-      fetchOptions.signal = controller.signal;
-    }
+    return { url, path, init, options, transport: this.transport };
+  }
 
+  /**
+   * Adapts the `beforeSend` and `afterSend` hooks as the innermost middleware
+   * (the hooks are read from the sending client, e.g. a clone).
+   */
+  private async hooksMiddleware(request: SendRequest, next: NextFunc): Promise<SendResponse> {
     // Apply beforeSend hook
     if (this.beforeSend) {
       const hookResult = await Promise.resolve(
-        this.beforeSend(url, fetchOptions)
+        this.beforeSend(request.url, request.init)
+      );
+      request = {
+        ...request,
+        url: hookResult.url,
+        init: Object.assign(request.init, hookResult.options),
+      };
+    }
+
+    const result = await next(request);
+
+    // Apply afterSend hook
+    if (this.afterSend) {
+      result.data = await Promise.resolve(
+        this.afterSend(result.response, result.data)
       );
-      url = hookResult.url;
-      Object.assign(fetchOptions, hookResult.options);
     }
 
-    // Perform the fetch
-    let response: Response;
+    return result;
+  }
+
+  /**
+   * Performs the actual fetch call (retrying on network failures and
+   * retryable statuses) and parses the response body.
+   */
+  private async dispatch(request: SendRequest): Promise<SendResponse> {
+    const { url, init, options, transport } = request;
+    const signal = init.signal;
+    const retryPolicy = resolveRetryPolicy(this.retry, options.retry);
+
+    const transportFetch: NonNullable<SendOptions['fetch']> = (input, config) =>
+      transport.fetch(String(input), config || {});
+
+    let fetchFunc = options.fetch || transportFetch;
+    if (options.onUploadProgress) {
+      // the default transport uploads with XMLHttpRequest in browsers
+      const customFetch =
+        options.fetch || (transport instanceof FetchTransport ? undefined : transportFetch);
+      fetchFunc = uploadProgressFetch(options.onUploadProgress, customFetch);
+    }
+
+    let release: (() => void) | null = null;
     try {
-      const fetchFunc = options.fetch || fetch;
-      response = await fetchFunc(url, fetchOptions);
-    } catch (err) {
-      // Clean up controller
-      if (requestKey !== null && requestKey !== undefined) {
-        this._cancelControllers.delete(requestKey);
-      }
+      let response: Response | undefined;
+      let fetchError: unknown = null;
+      for (let attempt = 1; ; attempt++) {
+        response = undefined;
+        fetchError = null;
+
+        // Wait for a free request slot
+        try {
+          release = await this.limiter.acquire(options.priority, signal);
+        } catch (err) {
+          fetchError = err;
+          break;
+        }
+
+        if (signal?.aborted) {
+          fetchError = signal.reason;
+          break;
+        }
+
+        try {
+          response = await fetchFunc(url, init);
+        } catch (err) {
+          fetchError = err;
+        }
+
+        const retryable = response
+          ? !response.ok && retryPolicy.statuses.includes(response.status)
+          : fetchError instanceof TypeError && !this.isAbortError(fetchError, signal);
+
+        if (!retryable || !canRetry(retryPolicy, init.method as string, attempt)) {
+          break;
+        }
 
-      // Check if it was aborted
-      if ((err as Error).name === 'AbortError') {
-        throw new ClientResponseError({
-          url,
-          isAbort: true,
-          originalError: err,
+        const delay = retryDelay(retryPolicy, attempt, response);
+        if (delay === null) {
+          break;
+        }
+
+        this.instrumentation.emit({
+          ...this.requestEventBase(request),
+          type: 'request:retry',
+          attempt,
+          status: response?.status || 0,
+          delay,
         });
+
+        // Don't hold the request slot during the backoff
+        release();
+        release = null;
+
+        try {
+          await sleep(delay, signal);
+        } catch (err) {
+          // aborted while waiting for the next attempt
+          response = undefined;
+          fetchError = err;
+          break;
+        }
       }
 
-      throw new ClientResponseError({
-        url,
-        originalError: err,
-      });
-    }
+      if (!response) {
+        throw this.abortOrNetworkError(url, fetchError, signal);
+      }
+
+      // Parse response (error responses are always parsed as JSON/text)
+      const data = await this.parseResponse(
+        response,
+        response.ok ? options.responseType : 'auto'
+      );
 
-    // Clean up controller
-    if (requestKey !== null && requestKey !== undefined) {
-      this._cancelControllers.delete(requestKey);
+      // The request could have been aborted while reading the body
+      if (signal?.aborted) {
+        throw this.abortOrNetworkError(url, signal.reason, signal);
+      }
+
+      return { response, data, endpoint: this.endpoints.endpointFor(url) };
+    } finally {
+      release?.();
     }
+  }
+
+  /**
+   * Returns a copy of the response with a replaced body stream.
+   */
+  private withBody(response: Response, body: ReadableStream<Uint8Array>): Response {
+    const result = new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+
+    // the url can't be passed to the Response constructor
+    Object.defineProperty(result, 'url', { value: response.url });
+
+    return result;
+  }
 
-    // Parse response
-    let data: unknown = null;
+  /**
+   * Reads the response body according to the response type.
+   */
+  private async parseResponse(
+    response: Response,
+    responseType: SendResponseType = 'auto'
+  ): Promise<unknown> {
     try {
+      switch (responseType) {
+        case 'response':
+          return response;
+        case 'stream':
+          return response.body;
+        case 'blob':
+          return await response.blob();
+        case 'arrayBuffer':
+          return await response.arrayBuffer();
+        case 'text':
+          return await response.text();
+      }
+
       const contentType = response.headers.get('Content-Type') || '';
       if (contentType.includes('application/json')) {
-        data = await response.json();
+        return await response.json();
       } else if (response.status !== 204) {
-        data = await response.text();
+        return await response.text();
       }
     } catch {
       // Ignore parse errors
     }
 
-    // Apply afterSend hook
-    if (this.afterSend) {
-      data = await Promise.resolve(this.afterSend(response, data));
+    return null;
+  }
+
+  /**
+   * Normalizes a failed fetch call into a ClientResponseError.
+   *
+   * Only the `TypeError` failures are network errors, the errors thrown
+   * by a custom fetch function or transport have the `unknown` kind.
+   */
+  private abortOrNetworkError(
+    url: string,
+    err: unknown,
+    signal?: AbortSignal | null
+  ): ClientResponseError {
+    if (signal?.aborted && (signal.reason as Error)?.name === 'TimeoutError') {
+      return ClientResponseError.fromError({
+        url,
+        isTimeout: true,
+        originalError: err,
+      });
+    }
+
+    // Check if it was aborted
+    if (this.isAbortError(err, signal)) {
+      return ClientResponseError.fromError({
+        url,
+        isAbort: true,
+        originalError: err,
+      });
     }
 
-    // Handle error responses
-    if (!response.ok) {
-      throw new ClientResponseError({
+    if (!(err instanceof TypeError)) {
+      return ClientResponseError.fromError({
         url,
-        status: response.status,
-        response: data as Record<string, unknown>,
+        kind: 'unknown',
+        message: err instanceof Error ? err.message : undefined,
+        originalError: err,
       });
     }
 
-    return data as T;
+    return ClientResponseError.fromError({
+      url,
+      originalError: err,
+    });
+  }
+
+  /**
+   * Checks if the error (or the request signal) indicates an aborted request.
+   */
+  private isAbortError(err: unknown, signal?: AbortSignal | null): boolean {
+    return (err as Error)?.name === 'AbortError' || !!signal?.aborted;
   }
 
   /**
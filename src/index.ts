@@ -11,6 +11,7 @@ export type {
   BaseModel,
   RecordModel,
   ListResult,
+  CursorListResult,
   CollectionModel,
   SchemaField,
   LogModel,
@@ -31,12 +32,25 @@ export type {
 } from './types';
 
 // Error
-export { ClientResponseError } from './ClientResponseError';
+export {
+  ClientResponseError,
+  NotFoundError,
+  ForbiddenError,
+  UnauthorizedError,
+  ValidationError,
+  RateLimitedError,
+  NetworkError,
+  AbortedError,
+  TimeoutError,
+  CircuitOpenError,
+} from './ClientResponseError';
+export type { ClientErrorKind, FieldError } from './ClientResponseError';
 
 // Auth stores
 export {
   BaseAuthStore,
   LocalAuthStore,
+  MemoryAuthStore,
   AsyncAuthStore,
 } from './stores';
 export type {
@@ -48,6 +62,30 @@ export type {
   Unsubscriber,
 } from './stores';
 
+// Upload progress
+export type { UploadProgressFunc } from './tools/upload';
+
+// Request limiter
+export { RequestLimiter } from './tools/limiter';
+export type { RequestPriority, LimiterStats } from './tools/limiter';
+
+// Offline queue
+export {
+  OfflineQueue,
+  MemoryQueueStorage,
+  LocalQueueStorage,
+  AsyncQueueStorage,
+} from './offline';
+export type {
+  QueuedMutation,
+  QueuedMutationStatus,
+  ConflictResolution,
+  OfflineQueueOptions,
+  OnMutationStatusFunc,
+  QueueStorage,
+  AsyncQueueStorageOptions,
+} from './offline';
+
 // Services
 export {
   BaseService,
@@ -71,13 +109,130 @@ export type {
   SendOptions,
   ListOptions,
   FullListOptions,
+  CursorListOptions,
+  IterateOptions,
+  IterateProgress,
   RecordOptions,
   FileOptions,
+  DownloadRange,
+  DownloadOptions,
+  FileDownloadOptions,
+  SendResponseType,
   RealtimeOptions,
   AuthOptions,
   OAuth2Options,
   CollectionImportOptions,
+  RetryOptions,
+  CacheOptions,
+  AutoCancellationMode,
+  ClientOptions,
+  ClientCloneOptions,
 } from './tools/options';
 
+// Downloads
+export type { DownloadResult } from './tools/download';
+
+// Response cache
+export { ResponseCache } from './tools/cache';
+export type { CacheEntryInfo } from './tools/cache';
+
+// Transport
+export { FetchTransport } from './tools/transport';
+export type { Transport } from './tools/transport';
+
+// Middlewares
+export type {
+  Middleware,
+  NextFunc,
+  SendRequest,
+  SendResponse,
+} from './tools/middleware';
+
+// Cassette recording/replay
+export { CassetteRecorder, CassettePlayer, CassetteMismatchError } from './tools/cassette';
+export type {
+  Cassette,
+  CassetteEntry,
+  CassetteNameValue,
+  CassetteRecorderOptions,
+  CassettePlayerOptions,
+} from './tools/cassette';
+
+// Endpoints routing
+export { EndpointPool } from './tools/endpoints';
+export type {
+  RoutingPolicy,
+  EndpointPoolOptions,
+  EndpointStatus,
+  OnEndpointChangeFunc,
+} from './tools/endpoints';
+
+// Circuit breaker
+export { CircuitBreaker } from './tools/breaker';
+export type {
+  CircuitState,
+  CircuitBreakerOptions,
+  OnCircuitStateChangeFunc,
+} from './tools/breaker';
+
+// Instrumentation and metrics
+export { Instrumentation } from './tools/instrumentation';
+export type {
+  InstrumentationEvent,
+  InstrumentationFunc,
+  RequestEventBase,
+  RequestStartEvent,
+  RequestResponseEvent,
+  RequestErrorEvent,
+  RequestAbortEvent,
+  RequestRetryEvent,
+  RealtimeConnectEvent,
+  RealtimeDisconnectEvent,
+  RealtimeMessageEvent,
+  BreakerStateEvent,
+} from './tools/instrumentation';
+export { ClientMetrics } from './tools/metrics';
+export type {
+  ClientMetricsOptions,
+  HistogramSnapshot,
+  RouteMetrics,
+  RealtimeMetrics,
+  MetricsSnapshot,
+} from './tools/metrics';
+
+// Auth auto refresh
+export type { AutoRefreshOptions } from './tools/authRefresh';
+
 // Filter helper
 export { filter } from './tools/filter';
+
+// Query builder
+export { q, query, QueryBuilder, QueryExpr, QueryRef } from './tools/query';
+export type {
+  FilterOperator,
+  FieldModifier,
+  QueryField,
+  QueryValue,
+  QueryNode,
+} from './tools/query';
+
+// Filter parser
+export {
+  parseFilter,
+  stringifyFilter,
+  formatFilter,
+  validateFilter,
+  lintCollectionRules,
+  FilterSyntaxError,
+} from './tools/filterParser';
+export type {
+  FilterNode,
+  FilterComparisonNode,
+  FilterLogicalNode,
+  FilterOperandNode,
+  FilterIdentifierNode,
+  FilterLiteralNode,
+  FilterIssue,
+  FilterValidateOptions,
+  FilterStringifyOptions,
+} from './tools/filterParser';
@@ -0,0 +1,400 @@
+import type { Client } from '../Client';
+import type { SendOptions } from '../tools/options';
+import type { Middleware, SendRequest } from '../tools/middleware';
+import { ClientResponseError } from '../ClientResponseError';
+import { LocalQueueStorage } from './QueueStorage';
+import type { QueueStorage } from './QueueStorage';
+
+/**
+ * Status of a queued mutation.
+ *
+ * - `queued` - waiting to be replayed
+ * - `replaying` - currently being sent
+ * - `succeeded` - replayed successfully (removed from the queue)
+ * - `conflict` - the server rejected the replayed write with a 4xx response
+ * - `dropped` - removed from the queue without being applied
+ */
+export type QueuedMutationStatus =
+  | 'queued'
+  | 'replaying'
+  | 'succeeded'
+  | 'conflict'
+  | 'dropped';
+
+/**
+ * A create/update/delete request waiting to be replayed.
+ */
+export interface QueuedMutation {
+  id: string;
+  method: string;
+  path: string;
+  body?: unknown;
+  query?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  status: QueuedMutationStatus;
+  attempts: number;
+  created: string;
+  lastError?: string;
+}
+
+/**
+ * Conflict resolution for replayed writes rejected with a 4xx response.
+ *
+ * - `drop` - remove the mutation from the queue and continue with the next one
+ * - `keep` - keep the mutation in the queue and stop the current replay
+ */
+export type ConflictResolution = 'drop' | 'keep';
+
+/**
+ * Offline queue options.
+ */
+export interface OfflineQueueOptions {
+  /**
+   * Persistent storage for the queued mutations.
+   * @default LocalQueueStorage
+   */
+  storage?: QueueStorage;
+
+  /**
+   * Invoked when a replayed mutation is rejected with a 4xx response.
+   * @default () => 'drop'
+   */
+  onConflict?: (
+    item: QueuedMutation,
+    error: ClientResponseError
+  ) => ConflictResolution | Promise<ConflictResolution>;
+
+  /**
+   * Whether to automatically replay the queue when the browser
+   * fires the `online` event.
+   * @default true
+   */
+  replayOnReconnect?: boolean;
+}
+
+export type OnMutationStatusFunc = (item: QueuedMutation) => void;
+
+// create/update/delete requests of CrudService (records and collections)
+const MUTATION_PATH_REGEX = /^\/api\/collections(\/[^/]+\/records)?(\/[^/]+)?$/;
+const MUTATION_METHODS = ['POST', 'PATCH', 'DELETE'];
+
+/**
+ * OfflineQueue persists the create/update/delete requests that failed
+ * because the device is offline and replays them in order once the
+ * connectivity is restored.
+ */
+export class OfflineQueue {
+  private client: Client;
+  private storage: QueueStorage = new LocalQueueStorage();
+  private onConflict?: OfflineQueueOptions['onConflict'];
+  private queue: QueuedMutation[] = [];
+  private replayingOptions: WeakSet<SendOptions> = new WeakSet();
+  private replayPromise: Promise<void> | null = null;
+  private _onStatusCallbacks: OnMutationStatusFunc[] = [];
+  private _enabled = false;
+  private unbindOnline: (() => void) | null = null;
+
+  constructor(client: Client) {
+    this.client = client;
+  }
+
+  /**
+   * Returns whether the offline mode is enabled.
+   */
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  /**
+   * Returns a copy of the queued mutations (in replay order).
+   */
+  get items(): QueuedMutation[] {
+    return this.queue.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Returns the number of queued mutations.
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Enables the offline mode, loads the persisted queue and replays it
+   * if the device is online.
+   */
+  async enable(options: OfflineQueueOptions = {}): Promise<void> {
+    this.disable();
+
+    this.storage = options.storage || new LocalQueueStorage();
+    this.onConflict = options.onConflict;
+    this._enabled = true;
+
+    if (options.replayOnReconnect !== false) {
+      this.bindOnlineEvent();
+    }
+
+    try {
+      const serialized = await Promise.resolve(this.storage.load());
+      const items = serialized ? (JSON.parse(serialized) as QueuedMutation[]) : [];
+      // interrupted replays are queued again
+      this.queue = items.map((item) => ({ ...item, status: 'queued' }));
+    } catch {
+      // Ignore load/parse errors
+      this.queue = [];
+    }
+
+    if (!isOffline()) {
+      await this.replay();
+    }
+  }
+
+  /**
+   * Disables the offline mode (the persisted queue is left untouched).
+   */
+  disable(): void {
+    this._enabled = false;
+    this.unbindOnline?.();
+    this.unbindOnline = null;
+  }
+
+  /**
+   * Registers a callback that is invoked on every queued mutation status change.
+   *
+   * Returns a removal function that you can call to unsubscribe.
+   */
+  onStatusChange(callback: OnMutationStatusFunc): () => void {
+    this._onStatusCallbacks.push(callback);
+
+    return () => {
+      const index = this._onStatusCallbacks.indexOf(callback);
+      if (index !== -1) {
+        this._onStatusCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Removes a single queued mutation.
+   */
+  async remove(id: string): Promise<void> {
+    const item = this.queue.find((i) => i.id === id);
+    if (!item || item.status === 'replaying') {
+      return;
+    }
+
+    this.queue = this.queue.filter((i) => i !== item);
+    this.setStatus(item, 'dropped');
+    await this.persist();
+  }
+
+  /**
+   * Removes all queued mutations.
+   */
+  async clear(): Promise<void> {
+    for (const item of this.queue.filter((i) => i.status !== 'replaying')) {
+      await this.remove(item.id);
+    }
+  }
+
+  /**
+   * Replays the queued mutations in order.
+   *
+   * The replay stops on the first network or 5xx failure, leaving the
+   * rest of the queue for the next replay.
+   */
+  replay(): Promise<void> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.doReplay().finally(() => {
+        this.replayPromise = null;
+      });
+    }
+
+    return this.replayPromise;
+  }
+
+  /**
+   * Middleware that queues the mutations failing because of a lost connection.
+   *
+   * While the queue is not empty, it is replayed first and the new mutations
+   * are queued behind the remaining items so that the writes are applied in order.
+   */
+  middleware: Middleware = async (request, next) => {
+    if (
+      !this._enabled ||
+      this.replayingOptions.has(request.options) ||
+      !isQueueable(request)
+    ) {
+      return next(request);
+    }
+
+    if (isOffline()) {
+      throw await this.enqueue(request, null);
+    }
+
+    if (this.queue.length) {
+      await this.replay();
+
+      if (this.queue.length) {
+        throw await this.enqueue(request, null);
+      }
+    }
+
+    try {
+      return await next(request);
+    } catch (err) {
+      if (err instanceof ClientResponseError && err.kind === 'network') {
+        throw await this.enqueue(request, err);
+      }
+      throw err;
+    }
+  };
+
+  private async doReplay(): Promise<void> {
+    for (const item of [...this.queue]) {
+      if (!this._enabled || !this.queue.includes(item)) {
+        continue;
+      }
+
+      const options: SendOptions = {
+        method: item.method,
+        body: item.body,
+        query: item.query,
+        headers: item.headers,
+        requestKey: null,
+      };
+      this.replayingOptions.add(options);
+
+      item.attempts++;
+      this.setStatus(item, 'replaying');
+
+      try {
+        await this.client.send(item.path, options);
+      } catch (err) {
+        const error = ClientResponseError.fromError(err);
+        item.lastError = error.message;
+
+        if (error.status >= 400 && error.status < 500) {
+          this.setStatus(item, 'conflict');
+
+          const resolution = this.onConflict
+            ? await this.onConflict({ ...item }, error)
+            : 'drop';
+
+          if (resolution === 'drop') {
+            this.queue = this.queue.filter((i) => i !== item);
+            this.setStatus(item, 'dropped');
+            await this.persist();
+            continue;
+          }
+        }
+
+        // transient failure - keep it (and the order) for the next replay
+        this.setStatus(item, 'queued');
+        await this.persist();
+        return;
+      }
+
+      this.queue = this.queue.filter((i) => i !== item);
+      this.setStatus(item, 'succeeded');
+      await this.persist();
+    }
+  }
+
+  private async enqueue(
+    request: SendRequest,
+    originalError: ClientResponseError | null
+  ): Promise<ClientResponseError> {
+    const item: QueuedMutation = {
+      id: Date.now().toString(36) + Math.random().toString(36).slice(2, 10),
+      method: (request.init.method || 'GET').toUpperCase(),
+      path: request.path,
+      body: request.options.body,
+      query: request.options.query,
+      headers: persistedHeaders(request.options.headers),
+      status: 'queued',
+      attempts: 0,
+      created: new Date().toISOString(),
+    };
+
+    this.queue.push(item);
+    this.setStatus(item, 'queued');
+    await this.persist();
+
+    return ClientResponseError.fromError({
+      url: request.url,
+      message: 'The request was queued and will be replayed once the connection is restored.',
+      response: { queuedId: item.id },
+      originalError,
+    });
+  }
+
+  private setStatus(item: QueuedMutation, status: QueuedMutationStatus): void {
+    item.status = status;
+
+    for (const callback of this._onStatusCallbacks) {
+      callback({ ...item });
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await Promise.resolve(this.storage.save(JSON.stringify(this.queue)));
+    } catch {
+      // Ignore save errors
+    }
+  }
+
+  private bindOnlineEvent(): void {
+    if (typeof window === 'undefined' || typeof window.addEventListener !== 'function') {
+      return;
+    }
+
+    const onOnline = () => {
+      this.replay();
+    };
+
+    window.addEventListener('online', onOnline);
+    this.unbindOnline = () => window.removeEventListener('online', onOnline);
+  }
+}
+
+/**
+ * Checks whether the environment reports that there is no connectivity.
+ */
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Returns the request headers without the Authorization header
+ * (the replayed requests are sent with the auth state at the time of the replay).
+ */
+function persistedHeaders(
+  headers: Record<string, string> | undefined
+): Record<string, string> | undefined {
+  if (!headers) {
+    return headers;
+  }
+
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.toLowerCase() !== 'authorization') {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Checks whether the request is a JSON create/update/delete CrudService request.
+ */
+function isQueueable(request: SendRequest): boolean {
+  const method = (request.init.method || 'GET').toUpperCase();
+
+  return (
+    MUTATION_METHODS.includes(method) &&
+    MUTATION_PATH_REGEX.test(request.path) &&
+    (request.init.body === undefined || typeof request.init.body === 'string')
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * Persistent storage adapter for the offline mutation queue.
+ *
+ * Both sync (localStorage) and async (IndexedDB, React Native AsyncStorage)
+ * implementations are supported.
+ */
+export interface QueueStorage {
+  /**
+   * Loads the serialized queue (or `null` if nothing was stored).
+   */
+  load(): string | null | Promise<string | null>;
+
+  /**
+   * Persists the serialized queue.
+   */
+  save(serialized: string): void | Promise<void>;
+}
+
+/**
+ * MemoryQueueStorage keeps the queue only for the lifetime of the process.
+ */
+export class MemoryQueueStorage implements QueueStorage {
+  private value: string | null = null;
+
+  load(): string | null {
+    return this.value;
+  }
+
+  save(serialized: string): void {
+    this.value = serialized;
+  }
+}
+
+/**
+ * LocalQueueStorage uses the browser's localStorage if available,
+ * otherwise falls back to runtime/memory storage.
+ */
+export class LocalQueueStorage implements QueueStorage {
+  private storageKey: string;
+  private storageFallback: string | null = null;
+
+  constructor(storageKey = 'pocketbase_offline_queue') {
+    this.storageKey = storageKey;
+  }
+
+  load(): string | null {
+    if (typeof localStorage !== 'undefined') {
+      try {
+        return localStorage.getItem(this.storageKey);
+      } catch {
+        // localStorage might throw in some environments (e.g., incognito mode)
+      }
+    }
+
+    return this.storageFallback;
+  }
+
+  save(serialized: string): void {
+    if (typeof localStorage !== 'undefined') {
+      try {
+        localStorage.setItem(this.storageKey, serialized);
+        return;
+      } catch {
+        // localStorage might throw in some environments
+      }
+    }
+
+    this.storageFallback = serialized;
+  }
+}
+
+/**
+ * Options for the AsyncQueueStorage.
+ */
+export interface AsyncQueueStorageOptions {
+  /**
+   * Function to load the serialized queue.
+   */
+  load: () => Promise<string | null>;
+
+  /**
+   * Function to save the serialized queue.
+   */
+  save: (serialized: string) => Promise<void>;
+}
+
+/**
+ * AsyncQueueStorage is a queue storage helper for integrating with async
+ * 3rd party storage implementations (e.g., React Native AsyncStorage, IndexedDB wrappers).
+ *
+ * @example
+ * ```js
+ * const storage = new AsyncQueueStorage({
+ *   load: () => AsyncStorage.getItem('pb_queue'),
+ *   save: (serialized) => AsyncStorage.setItem('pb_queue', serialized),
+ * });
+ * ```
+ */
+export class AsyncQueueStorage implements QueueStorage {
+  private loadFunc: () => Promise<string | null>;
+  private saveFunc: (serialized: string) => Promise<void>;
+
+  constructor(options: AsyncQueueStorageOptions) {
+    this.loadFunc = options.load;
+    this.saveFunc = options.save;
+  }
+
+  load(): Promise<string | null> {
+    return this.loadFunc();
+  }
+
+  save(serialized: string): Promise<void> {
+    return this.saveFunc(serialized);
+  }
+}
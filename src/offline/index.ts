@@ -0,0 +1,14 @@
+export { OfflineQueue } from './OfflineQueue';
+export type {
+  QueuedMutation,
+  QueuedMutationStatus,
+  ConflictResolution,
+  OfflineQueueOptions,
+  OnMutationStatusFunc,
+} from './OfflineQueue';
+export {
+  MemoryQueueStorage,
+  LocalQueueStorage,
+  AsyncQueueStorage,
+} from './QueueStorage';
+export type { QueueStorage, AsyncQueueStorageOptions } from './QueueStorage';
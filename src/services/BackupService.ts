@@ -1,7 +1,9 @@
 import { BaseService } from './BaseService';
 import type { Client } from '../Client';
 import type { BackupFileInfo } from '../types';
-import type { SendOptions } from '../tools/options';
+import type { DownloadOptions, SendOptions } from '../tools/options';
+import { rangeHeader, toDownloadResult } from '../tools/download';
+import type { DownloadResult } from '../tools/download';
 
 /**
  * BackupService provides backup-related operations.
@@ -84,4 +86,41 @@ export class BackupService extends BaseService {
       `/api/backups/${encodeURIComponent(key)}?token=${encodeURIComponent(token)}`
     );
   }
+
+  /**
+   * Downloads a single existing backup as a stream.
+   *
+   * If no token is provided, a file access token for the current
+   * authenticated superuser is requested automatically.
+   */
+  async download(key: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    const { range, token, ...sendOptions } = options;
+
+    let fileToken = token;
+    if (!fileToken) {
+      const result = await this.client.send<{ token: string }>('/api/files/token', {
+        method: 'POST',
+        requestKey: null,
+        fetch: sendOptions.fetch,
+        signal: sendOptions.signal,
+      });
+      fileToken = result.token;
+    }
+
+    const response = await this.client.send<Response>(
+      `/api/backups/${encodeURIComponent(key)}`,
+      {
+        method: 'GET',
+        requestKey: null,
+        ...sendOptions,
+        headers: range
+          ? { ...sendOptions.headers, Range: rangeHeader(range) }
+          : sendOptions.headers,
+        query: { ...sendOptions.query, token: fileToken },
+        responseType: 'response',
+      }
+    );
+
+    return toDownloadResult(response);
+  }
 }
@@ -1,12 +1,23 @@
 import { BaseService } from './BaseService';
 import type { Client } from '../Client';
-import type { ListResult, BaseModel } from '../types';
+import type { ListResult, CursorListResult, BaseModel } from '../types';
 import type {
+  CursorListOptions,
   ListOptions,
   FullListOptions,
+  IterateOptions,
   RecordOptions,
   SendOptions,
 } from '../tools/options';
+import { knownSendOptions } from '../tools/options';
+import { linkSignals } from '../tools/signal';
+import {
+  cursorFilter,
+  cursorSortExpr,
+  decodeCursor,
+  encodeCursor,
+  parseCursorSort,
+} from '../tools/cursor';
 
 /**
  * CrudService provides common CRUD operations for a resource.
@@ -44,30 +55,207 @@ export abstract class CrudService<T extends BaseModel> extends BaseService {
 
   /**
    * Returns a full list of items, fetching all pages.
+   *
+   * With `concurrency > 1` the remaining pages are fetched concurrently
+   * once the total pages are known from the first one (see `FullListOptions`).
    */
   async getFullList(options: FullListOptions = {}): Promise<T[]> {
-    const batch = options.batch || 200;
-    const result: T[] = [];
+    const { concurrency = 1, ...fullListOptions } = options;
+    const batch = fullListOptions.batch || 200;
 
-    const fetchPage = async (page: number): Promise<void> => {
-      const listOptions: ListOptions = {
-        ...options,
-        requestKey: options.requestKey ?? null, // disable auto-cancellation for batch requests
-      };
+    const listOptions: ListOptions = {
+      ...fullListOptions,
+      requestKey: fullListOptions.requestKey ?? null, // disable auto-cancellation for batch requests
+    };
+
+    let list = await this.getList(1, batch, listOptions);
+
+    if (concurrency > 1 && list.items.length === batch && list.totalPages > 1) {
+      const pages: number[] = [];
+      for (let page = 2; page <= list.totalPages; page++) {
+        pages.push(page);
+      }
+
+      const rest = await this.getPagesConcurrently(pages, batch, concurrency, listOptions);
+
+      return list.items.concat(...rest);
+    }
 
-      const list = await this.getList(page, batch, listOptions);
+    const result: T[] = [...list.items];
+
+    for (let page = 1; list.items.length === batch && list.totalPages > page; page++) {
+      list = await this.getList(page + 1, batch, listOptions);
       result.push(...list.items);
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetches the items of the specified pages with up to `concurrency`
+   * requests at a time and returns them in the pages order.
+   *
+   * The page requests are retried (3 attempts unless `options.retry` is set)
+   * and the first permanent failure aborts the remaining ones.
+   */
+  private async getPagesConcurrently(
+    pages: number[],
+    batch: number,
+    concurrency: number,
+    options: ListOptions
+  ): Promise<T[][]> {
+    const controller = new AbortController();
+    const unlinkSignals = linkSignals(controller, [options.signal]);
+
+    const result: T[][] = [];
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < pages.length && !controller.signal.aborted) {
+        const index = next++;
+
+        const list = await this.getList(pages[index], batch, {
+          ...options,
+          retry: options.retry ?? { maxAttempts: 3 },
+          signal: controller.signal,
+        });
 
-      if (list.items.length === batch && list.totalPages > page) {
-        await fetchPage(page + 1);
+        result[index] = list.items;
       }
     };
 
-    await fetchPage(1);
+    try {
+      const workers = Math.min(concurrency, pages.length);
+      await Promise.all(Array.from({ length: workers }, worker));
+    } catch (err) {
+      controller.abort();
+      throw err;
+    } finally {
+      unlinkSignals();
+    }
 
     return result;
   }
 
+  /**
+   * Returns a cursor (keyset) paginated list of items.
+   *
+   * Instead of an offset, each page continues after the last item of the
+   * previous one (by the `sort` keys), so the pages stay consistent when
+   * items are inserted mid-scan. The returned `cursor` can be stored and
+   * passed back with the `cursor` option to fetch the next page.
+   */
+  async getCursorList(
+    perPage = 30,
+    options: CursorListOptions = {}
+  ): Promise<CursorListResult<T>> {
+    const { cursor, ...listOptions } = options;
+
+    const keys = parseCursorSort(listOptions.sort);
+    const sort = cursorSortExpr(keys);
+
+    let filter = listOptions.filter || '';
+    if (cursor) {
+      const state = decodeCursor(cursor);
+      if (state.sort !== sort) {
+        throw new Error(`The cursor was created for a different sort ("${state.sort}").`);
+      }
+
+      const continuation = cursorFilter(keys, state.values);
+      filter = filter ? `(${filter}) && (${continuation})` : continuation;
+    }
+
+    const list = await this.getList(1, perPage, {
+      ...listOptions,
+      sort,
+      filter: filter || undefined,
+      skipTotal: true,
+    });
+
+    let nextCursor: string | null = null;
+
+    const last = list.items[list.items.length - 1] as Record<string, unknown> | undefined;
+    if (last && list.items.length >= perPage) {
+      const values = keys.map((key) => {
+        if (last[key.field] === undefined) {
+          throw new Error(`Missing cursor sort field "${key.field}" in the list items.`);
+        }
+        return last[key.field];
+      });
+      nextCursor = encodeCursor({ sort, values });
+    }
+
+    return { perPage, items: list.items, cursor: nextCursor };
+  }
+
+  /**
+   * Iterates over all list pages, fetching them lazily
+   * (e.g. `for await (const list of service.iteratePages({ batch: 100 }))`).
+   *
+   * The next page is requested while the current one is being consumed.
+   * Breaking out of the loop aborts that pending page request.
+   */
+  async *iteratePages(
+    options: IterateOptions = {}
+  ): AsyncGenerator<ListResult<T>, void, undefined> {
+    const { batch = 200, onProgress, signal, ...listOptions } = options;
+
+    const controller = new AbortController();
+    const unlinkSignals = linkSignals(controller, [signal]);
+
+    const fetchPage = (page: number) => {
+      const request = this.getList(page, batch, {
+        ...listOptions,
+        requestKey: listOptions.requestKey ?? null, // disable auto-cancellation for batch requests
+        signal: controller.signal,
+      });
+      // the prefetched page may be aborted without being awaited
+      request.catch(() => {});
+      return request;
+    };
+
+    try {
+      let loaded = 0;
+      let pending: Promise<ListResult<T>> | null = fetchPage(1);
+
+      for (let page = 1; pending; page++) {
+        const list: ListResult<T> = await pending;
+        pending = null;
+
+        loaded += list.items.length;
+        onProgress?.({
+          page,
+          loaded,
+          totalItems: list.totalItems >= 0 ? list.totalItems : null,
+        });
+
+        // with skipTotal the total pages is unknown (-1)
+        if (list.items.length === batch && (list.totalPages < 0 || list.totalPages > page)) {
+          pending = fetchPage(page + 1);
+        }
+
+        if (list.items.length || page === 1) {
+          yield list;
+        }
+      }
+    } finally {
+      controller.abort();
+      unlinkSignals();
+    }
+  }
+
+  /**
+   * Iterates over all items, fetching the list pages lazily
+   * (e.g. `for await (const item of service.iterate({ filter: 'active = true' }))`).
+   *
+   * See `iteratePages()` for the fetching and cancellation details.
+   */
+  async *iterate(options: IterateOptions = {}): AsyncGenerator<T, void, undefined> {
+    for await (const list of this.iteratePages(options)) {
+      yield* list.items;
+    }
+  }
+
   /**
    * Returns the first found item matching the specified filter.
    */
@@ -174,17 +362,9 @@ export abstract class CrudService<T extends BaseModel> extends BaseService {
     options: Record<string, unknown>
   ): Record<string, unknown> {
     const result: Record<string, unknown> = {};
-    const knownNonQueryParams = [
-      'headers',
-      'body',
-      'query',
-      'requestKey',
-      'fetch',
-      'method',
-    ];
 
     for (const [key, value] of Object.entries(options)) {
-      if (knownNonQueryParams.includes(key) || value === undefined) {
+      if (knownSendOptions.includes(key) || value === undefined) {
         continue;
       }
       result[key] = value;
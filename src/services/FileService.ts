@@ -1,7 +1,10 @@
 import { BaseService } from './BaseService';
 import type { Client } from '../Client';
 import type { RecordModel } from '../types';
-import type { FileOptions, SendOptions } from '../tools/options';
+import { ClientResponseError } from '../ClientResponseError';
+import type { FileDownloadOptions, FileOptions, SendOptions } from '../tools/options';
+import { rangeHeader, toDownloadResult } from '../tools/download';
+import type { DownloadResult } from '../tools/download';
 
 /**
  * FileService provides file-related operations.
@@ -27,15 +30,7 @@ export class FileService extends BaseService {
       return '';
     }
 
-    const parts = [
-      'api',
-      'files',
-      encodeURIComponent(record.collectionId),
-      encodeURIComponent(record.id),
-      encodeURIComponent(filename),
-    ];
-
-    const url = new URL(this.client.buildURL('/' + parts.join('/')));
+    const url = new URL(this.client.buildURL(this.filePath(record, filename)));
 
     if (options.thumb) {
       url.searchParams.set('thumb', options.thumb);
@@ -52,6 +47,76 @@ export class FileService extends BaseService {
     return url.toString();
   }
 
+  /**
+   * Downloads the specified record file as a stream.
+   *
+   * If the file is protected and no token is provided, a file access token
+   * for the current authenticated record is requested and the download retried.
+   *
+   * @param record - The record containing the file
+   * @param filename - The filename of the file
+   * @param options - Additional options like thumb size, token or byte range
+   */
+  async download(
+    record: RecordModel,
+    filename: string,
+    options: FileDownloadOptions = {}
+  ): Promise<DownloadResult> {
+    if (!record || !record.id || !record.collectionId || !filename) {
+      throw new Error('Missing required record id, collectionId or filename.');
+    }
+
+    const { range, token, thumb, download, ...sendOptions } = options;
+
+    const send = (fileToken?: string) => {
+      const query: Record<string, unknown> = { ...sendOptions.query };
+      if (thumb) {
+        query.thumb = thumb;
+      }
+      if (fileToken) {
+        query.token = fileToken;
+      }
+      if (download) {
+        query.download = 1;
+      }
+
+      return this.client.send<Response>(this.filePath(record, filename), {
+        method: 'GET',
+        requestKey: null,
+        ...sendOptions,
+        headers: range
+          ? { ...sendOptions.headers, Range: rangeHeader(range) }
+          : sendOptions.headers,
+        query,
+        responseType: 'response',
+      });
+    };
+
+    let response: Response;
+    try {
+      response = await send(token);
+    } catch (err) {
+      // protected files are reported as missing/forbidden without a token
+      if (
+        token ||
+        !this.client.authStore.isValid ||
+        !(err instanceof ClientResponseError) ||
+        ![401, 403, 404].includes(err.status)
+      ) {
+        throw err;
+      }
+
+      const fileToken = await this.getToken({
+        requestKey: null,
+        fetch: sendOptions.fetch,
+        signal: sendOptions.signal,
+      });
+      response = await send(fileToken);
+    }
+
+    return toDownloadResult(response);
+  }
+
   /**
    * Requests a new private file access token for the current authenticated record.
    */
@@ -66,4 +131,19 @@ export class FileService extends BaseService {
 
     return result.token;
   }
+
+  /**
+   * Returns the relative path to the specified record file.
+   */
+  private filePath(record: RecordModel, filename: string): string {
+    const parts = [
+      'api',
+      'files',
+      encodeURIComponent(record.collectionId),
+      encodeURIComponent(record.id),
+      encodeURIComponent(filename),
+    ];
+
+    return '/' + parts.join('/');
+  }
 }
@@ -1,7 +1,9 @@
 import { BaseService } from './BaseService';
 import type { Client } from '../Client';
 import type { LogModel, ListResult, LogStatsEntry } from '../types';
+import { knownSendOptions } from '../tools/options';
 import type { ListOptions, SendOptions } from '../tools/options';
+import { filter as filterHelper } from '../tools/filter';
 
 /**
  * LogService provides access to request logs.
@@ -57,6 +59,35 @@ export class LogService extends BaseService {
     });
   }
 
+  /**
+   * Returns the logs of a single request by its correlation id
+   * (e.g. `err.requestId` of a failed request), newest first.
+   *
+   * The logs are matched on the `data.requestId` field
+   * (e.g. written by a server hook from the `requestIdHeader` value).
+   */
+  async findByRequestId(
+    requestId: string,
+    options: ListOptions = {}
+  ): Promise<LogModel[]> {
+    if (!requestId) {
+      throw new Error('Missing required request id.');
+    }
+
+    let filter = filterHelper('data.requestId = {:requestId}', { requestId });
+    if (options.filter) {
+      filter = `(${options.filter}) && ${filter}`;
+    }
+
+    const result = await this.getList(1, 100, {
+      sort: '-created',
+      ...options,
+      filter,
+    });
+
+    return result.items;
+  }
+
   /**
    * Extracts query parameters from options.
    */
@@ -64,17 +95,9 @@ export class LogService extends BaseService {
     options: Record<string, unknown>
   ): Record<string, unknown> {
     const result: Record<string, unknown> = {};
-    const knownNonQueryParams = [
-      'headers',
-      'body',
-      'query',
-      'requestKey',
-      'fetch',
-      'method',
-    ];
 
     for (const [key, value] of Object.entries(options)) {
-      if (knownNonQueryParams.includes(key) || value === undefined) {
+      if (knownSendOptions.includes(key) || value === undefined) {
         continue;
       }
       result[key] = value;
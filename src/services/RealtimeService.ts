@@ -13,6 +13,10 @@ export type SubscriptionFunc = (data: Record<string, unknown>) => void;
  */
 export const PB_CONNECT = 'PB_CONNECT';
 
+// EventSource readyState values
+const CONNECTING = 0;
+const OPEN = 1;
+
 interface Subscription {
   topic: string;
   callback: SubscriptionFunc;
@@ -49,7 +53,7 @@ export class RealtimeService extends BaseService {
   get isConnected(): boolean {
     return (
       !!this.eventSource &&
-      this.eventSource.readyState === EventSource.OPEN &&
+      this.eventSource.readyState === OPEN &&
       !!this.clientId
     );
   }
@@ -155,7 +159,7 @@ export class RealtimeService extends BaseService {
     }
 
     // If already connecting, wait for it
-    if (this.eventSource && this.eventSource.readyState === EventSource.CONNECTING) {
+    if (this.eventSource && this.eventSource.readyState === CONNECTING) {
       return new Promise((resolve, reject) => {
         this.pendingConnects.push({ resolve, reject });
       });
@@ -164,19 +168,17 @@ export class RealtimeService extends BaseService {
     return new Promise((resolve, reject) => {
       this.pendingConnects.push({ resolve, reject });
 
-      // Create new EventSource
+      // Open the realtime stream through the client transport
       const url = this.client.buildURL('/api/realtime');
+      const started = Date.now();
 
-      if (typeof EventSource === 'undefined') {
-        const err = new Error(
-          'EventSource is not available. Please use a polyfill.'
-        );
-        this.rejectPendingConnects(err);
+      try {
+        this.eventSource = this.client.transport.eventSource(url);
+      } catch (err) {
+        this.rejectPendingConnects(err as Error);
         return;
       }
 
-      this.eventSource = new EventSource(url);
-
       this.eventSource.onopen = () => {
         this.reconnectAttempts = 0;
       };
@@ -190,6 +192,13 @@ export class RealtimeService extends BaseService {
           const data = JSON.parse(e.data) as { clientId: string };
           this.clientId = data.clientId;
 
+          this.client.instrumentation.emit({
+            type: 'realtime:connect',
+            clientId: data.clientId,
+            duration: Date.now() - started,
+            timestamp: Date.now(),
+          });
+
           // Notify PB_CONNECT subscribers
           const connectSubs = this.subscriptions.get(PB_CONNECT);
           if (connectSubs) {
@@ -214,6 +223,13 @@ export class RealtimeService extends BaseService {
             return;
           }
 
+          this.client.instrumentation.emit({
+            type: 'realtime:message',
+            topic,
+            size: String(e.data).length,
+            timestamp: Date.now(),
+          });
+
           const topicSubs = this.subscriptions.get(topic);
           if (topicSubs) {
             for (const sub of topicSubs) {
@@ -234,6 +250,12 @@ export class RealtimeService extends BaseService {
     if (this.eventSource) {
       this.eventSource.close();
       this.eventSource = null;
+
+      this.client.instrumentation.emit({
+        type: 'realtime:disconnect',
+        reconnecting: false,
+        timestamp: Date.now(),
+      });
     }
 
     const activeTopics = Array.from(this.subscriptions.keys());
@@ -255,6 +277,12 @@ export class RealtimeService extends BaseService {
 
     this.reconnectAttempts++;
 
+    this.client.instrumentation.emit({
+      type: 'realtime:disconnect',
+      reconnecting: true,
+      timestamp: Date.now(),
+    });
+
     // Attempt to reconnect after a delay
     setTimeout(() => {
       if (this.subscriptions.size > 0) {
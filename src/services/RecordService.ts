@@ -441,16 +441,14 @@ export class RecordService<T extends RecordModel = RecordModel> extends CrudServ
   }
 
   /**
-   * Impersonates the specified record and returns a new client with the received auth token.
+   * Impersonates the specified record and returns a client clone
+   * (with an in-memory auth store) authenticated with the received auth token.
    */
   async impersonate(
     recordId: string,
     duration: number,
     options: RecordOptions = {}
   ): Promise<Client> {
-    // Import here to avoid circular dependency
-    const { default: PocketBase } = await import('../PocketBase');
-
     const result = await this.client.send<{ token: string }>(
       `${this.baseCrudPath}/${encodeURIComponent(recordId)}/impersonate`,
       {
@@ -461,15 +459,17 @@ export class RecordService<T extends RecordModel = RecordModel> extends CrudServ
       }
     );
 
-    // Create a new client with memory-only auth store
-    const impersonatedClient = new PocketBase(this.client.baseURL);
+    const impersonatedClient = this.client.clone();
 
     // Get the record data
-    const record = await impersonatedClient.collection(this.collectionIdOrName).authRefresh({
+    const auth = await new RecordService<T>(
+      impersonatedClient,
+      this.collectionIdOrName
+    ).authRefresh({
       headers: { Authorization: result.token },
     });
 
-    impersonatedClient.authStore.save(result.token, record.record as T);
+    impersonatedClient.authStore.save(result.token, auth.record);
 
     return impersonatedClient;
   }
@@ -39,7 +39,7 @@ export interface CookieOptions {
 /**
  * Decodes a JWT token without validation
  */
-function decodeToken(token: string): Record<string, unknown> {
+export function decodeToken(token: string): Record<string, unknown> {
   if (!token) {
     return {};
   }
@@ -65,7 +65,7 @@ function decodeToken(token: string): Record<string, unknown> {
 /**
  * Checks if a JWT token is expired
  */
-function isTokenExpired(token: string, expirationThreshold = 0): boolean {
+export function isTokenExpired(token: string, expirationThreshold = 0): boolean {
   const decoded = decodeToken(token);
   const exp = decoded.exp as number | undefined;
 
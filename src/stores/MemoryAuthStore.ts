@@ -0,0 +1,7 @@
+import { BaseAuthStore } from './BaseAuthStore';
+
+/**
+ * MemoryAuthStore keeps the auth state only in memory
+ * (e.g. for server-side and scoped clients).
+ */
+export class MemoryAuthStore extends BaseAuthStore {}
@@ -7,5 +7,6 @@ export type {
   Unsubscriber,
 } from './BaseAuthStore';
 export { LocalAuthStore } from './LocalAuthStore';
+export { MemoryAuthStore } from './MemoryAuthStore';
 export { AsyncAuthStore } from './AsyncAuthStore';
 export type { AsyncAuthStoreOptions } from './AsyncAuthStore';
@@ -0,0 +1,684 @@
+import type PocketBase from '../PocketBase';
+import type { RecordModel, ListResult } from '../types';
+import { decodeToken } from '../stores/BaseAuthStore';
+import type { Transport } from '../tools/transport';
+import { compileFilter, sortRecords } from './filter';
+
+/**
+ * Emulator options.
+ */
+export interface EmulatorOptions {
+  /**
+   * Initial records keyed by collection name.
+   */
+  collections?: Record<string, Record<string, unknown>[]>;
+
+  /**
+   * Lifetime of the issued auth tokens (in seconds).
+   * @default 3600
+   */
+  tokenDuration?: number;
+}
+
+interface EmulatorCollection {
+  id: string;
+  name: string;
+  records: Map<string, Record<string, unknown>>;
+}
+
+interface EmulatorRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  authorization: string;
+}
+
+interface EmulatorResult {
+  status: number;
+  body?: unknown;
+}
+
+interface RealtimeEvent {
+  collection: EmulatorCollection;
+  action: 'create' | 'update' | 'delete';
+  record: RecordModel;
+}
+
+interface RealtimeClient {
+  source: EmulatorEventSource;
+  topics: string[];
+}
+
+// fields that are never returned in the record responses
+const HIDDEN_FIELDS = ['password', 'passwordConfirm', 'tokenKey'];
+
+// fields that can't be changed with an update request
+const SYSTEM_FIELDS = ['id', 'created', 'updated', 'collectionId', 'collectionName'];
+
+const RECORDS_PATH_REGEX = /^\/api\/collections\/([^/]+)\/records(?:\/([^/]+))?$/;
+const AUTH_PATH_REGEX = /^\/api\/collections\/([^/]+)\/(auth-with-password|auth-refresh)$/;
+
+/**
+ * PocketBaseEmulator is an in-memory PocketBase server for tests.
+ *
+ * It emulates the records CRUD endpoints (with list pagination, sorting and
+ * a subset of the filter syntax), the batch endpoint, the password auth and
+ * auth refresh endpoints and the realtime record events.
+ */
+export class PocketBaseEmulator implements Transport {
+  private collections: Map<string, EmulatorCollection> = new Map();
+  private realtimeClients: Map<string, RealtimeClient> = new Map();
+  private pendingEvents: RealtimeEvent[] | null = null;
+  private tokenDuration: number;
+
+  constructor(options: EmulatorOptions = {}) {
+    this.tokenDuration = options.tokenDuration ?? 3600;
+
+    for (const [name, records] of Object.entries(options.collections || {})) {
+      this.seed(name, records);
+    }
+  }
+
+  /**
+   * Inserts the specified records (without emitting realtime events).
+   *
+   * Returns the created records.
+   */
+  seed(collectionName: string, records: Record<string, unknown>[]): RecordModel[] {
+    const collection = this.collection(collectionName);
+
+    return records.map((data) => {
+      const record = this.newRecord(collection, data);
+      collection.records.set(record.id as string, record);
+      return publicRecord(collection, record);
+    });
+  }
+
+  /**
+   * Returns the current records of a collection (in insertion order).
+   */
+  records(collectionName: string): RecordModel[] {
+    const collection = this.findCollection(collectionName);
+    if (!collection) {
+      return [];
+    }
+
+    return Array.from(collection.records.values()).map((r) => publicRecord(collection, r));
+  }
+
+  /**
+   * Removes all collections and closes the realtime connections.
+   */
+  reset(): void {
+    this.collections.clear();
+
+    for (const client of this.realtimeClients.values()) {
+      client.source.close();
+    }
+    this.realtimeClients.clear();
+  }
+
+  /**
+   * Sets the emulator as transport of the client (the emulator can be also
+   * passed directly as `transport` client option).
+   *
+   * Returns a function that you can call to restore the previous transport.
+   */
+  attach(client: PocketBase): () => void {
+    const prevTransport = client.transport;
+    client.transport = this;
+
+    return () => {
+      client.transport = prevTransport;
+    };
+  }
+
+  /**
+   * Fetch compatible function handled by the emulator
+   * (e.g. `pb.send(path, { fetch: emulator.fetch })`).
+   */
+  fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    if (init.signal?.aborted) {
+      throw init.signal.reason;
+    }
+
+    const url = new URL(String(input), 'http://localhost');
+    // strip the base url path prefix (if any)
+    const apiIndex = url.pathname.indexOf('/api/');
+    const headers = new Headers(init.headers);
+
+    const result = this.handle({
+      method: (init.method || 'GET').toUpperCase(),
+      path: apiIndex > 0 ? url.pathname.slice(apiIndex) : url.pathname,
+      query: url.searchParams,
+      body: parseBody(init.body),
+      authorization: headers.get('Authorization') || '',
+    });
+
+    if (result.body === undefined) {
+      return new Response(null, { status: result.status });
+    }
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+  /**
+   * Opens an EventSource connected to the emulator realtime events.
+   */
+  eventSource = (url: string): EventSource => {
+    const clientId = randomId();
+    const source = new EmulatorEventSource(url, () => {
+      this.realtimeClients.delete(clientId);
+    });
+    this.realtimeClients.set(clientId, { source, topics: [] });
+
+    // connect once the RealtimeService has registered its listeners
+    queueMicrotask(() => {
+      if (source.readyState === EmulatorEventSource.CLOSED) {
+        return;
+      }
+      source.readyState = EmulatorEventSource.OPEN;
+      source.onopen?.(new Event('open'));
+      source.dispatch('PB_CONNECT', { clientId });
+    });
+
+    return source as unknown as EventSource;
+  };
+
+  private handle(request: EmulatorRequest): EmulatorResult {
+    const { method, path } = request;
+
+    if (path === '/api/batch' && method === 'POST') {
+      return this.handleBatch(request);
+    }
+
+    if (path === '/api/realtime' && method === 'POST') {
+      return this.handleRealtime(request);
+    }
+
+    const authMatch = AUTH_PATH_REGEX.exec(path);
+    if (authMatch && method === 'POST') {
+      const collection = this.findCollection(decodeURIComponent(authMatch[1]));
+      if (!collection) {
+        return notFound();
+      }
+
+      return authMatch[2] === 'auth-refresh'
+        ? this.handleAuthRefresh(collection, request)
+        : this.handleAuthWithPassword(collection, request);
+    }
+
+    const recordsMatch = RECORDS_PATH_REGEX.exec(path);
+    if (recordsMatch) {
+      const collectionName = decodeURIComponent(recordsMatch[1]);
+      const id = recordsMatch[2] ? decodeURIComponent(recordsMatch[2]) : '';
+
+      if (!id && method === 'GET') {
+        return this.handleList(collectionName, request);
+      }
+      if (!id && method === 'POST') {
+        return this.handleCreate(collectionName, request.body);
+      }
+      if (!id && method === 'PUT') {
+        const existing = this.findCollection(collectionName)?.records.has(
+          String(request.body.id || '')
+        );
+        return existing
+          ? this.handleUpdate(collectionName, String(request.body.id), request.body)
+          : this.handleCreate(collectionName, request.body);
+      }
+      if (id && method === 'GET') {
+        return this.handleView(collectionName, id);
+      }
+      if (id && method === 'PATCH') {
+        return this.handleUpdate(collectionName, id, request.body);
+      }
+      if (id && method === 'DELETE') {
+        return this.handleDelete(collectionName, id);
+      }
+    }
+
+    return notFound();
+  }
+
+  private handleList(collectionName: string, request: EmulatorRequest): EmulatorResult {
+    const collection = this.findCollection(collectionName);
+    const query = request.query;
+
+    const page = Math.max(1, Number(query.get('page')) || 1);
+    const perPage = Math.min(1000, Math.max(1, Number(query.get('perPage')) || 30));
+    const skipTotal = query.get('skipTotal') === 'true' || query.get('skipTotal') === '1';
+
+    let items = collection
+      ? Array.from(collection.records.values()).map((r) => publicRecord(collection, r))
+      : [];
+
+    try {
+      const filter = query.get('filter');
+      if (filter) {
+        const predicate = compileFilter(filter);
+        items = items.filter((r) => predicate(r));
+      }
+    } catch {
+      return errorResult(400, "Invalid filter parameters.");
+    }
+
+    sortRecords(items, query.get('sort') || '');
+
+    const result: ListResult<RecordModel> = {
+      page,
+      perPage,
+      totalItems: skipTotal ? -1 : items.length,
+      totalPages: skipTotal ? -1 : Math.ceil(items.length / perPage),
+      items: items.slice((page - 1) * perPage, page * perPage),
+    };
+
+    return { status: 200, body: result };
+  }
+
+  private handleView(collectionName: string, id: string): EmulatorResult {
+    const collection = this.findCollection(collectionName);
+    const record = collection?.records.get(id);
+    if (!collection || !record) {
+      return notFound();
+    }
+
+    return { status: 200, body: publicRecord(collection, record) };
+  }
+
+  private handleCreate(collectionName: string, body: Record<string, unknown>): EmulatorResult {
+    const collection = this.collection(collectionName);
+
+    if (typeof body.id === 'string' && collection.records.has(body.id)) {
+      return validationError({
+        id: { code: 'validation_not_unique', message: 'Value must be unique.' },
+      });
+    }
+
+    if ('passwordConfirm' in body && body.password !== body.passwordConfirm) {
+      return validationError({
+        passwordConfirm: { code: 'validation_values_mismatch', message: "Values don't match." },
+      });
+    }
+
+    const record = this.newRecord(collection, body);
+    collection.records.set(record.id as string, record);
+
+    const result = publicRecord(collection, record);
+    this.emit({ collection, action: 'create', record: result });
+
+    return { status: 200, body: result };
+  }
+
+  private handleUpdate(
+    collectionName: string,
+    id: string,
+    body: Record<string, unknown>
+  ): EmulatorResult {
+    const collection = this.findCollection(collectionName);
+    const existing = collection?.records.get(id);
+    if (!collection || !existing) {
+      return notFound();
+    }
+
+    if ('passwordConfirm' in body && body.password !== body.passwordConfirm) {
+      return validationError({
+        passwordConfirm: { code: 'validation_values_mismatch', message: "Values don't match." },
+      });
+    }
+
+    const changes = { ...body };
+    for (const field of SYSTEM_FIELDS.concat('passwordConfirm')) {
+      delete changes[field];
+    }
+
+    // records are replaced (and never mutated) to keep the batch snapshots intact
+    const record = { ...existing, ...changes, updated: now() };
+    collection.records.set(id, record);
+
+    const result = publicRecord(collection, record);
+    this.emit({ collection, action: 'update', record: result });
+
+    return { status: 200, body: result };
+  }
+
+  private handleDelete(collectionName: string, id: string): EmulatorResult {
+    const collection = this.findCollection(collectionName);
+    const record = collection?.records.get(id);
+    if (!collection || !record) {
+      return notFound();
+    }
+
+    collection.records.delete(id);
+    this.emit({ collection, action: 'delete', record: publicRecord(collection, record) });
+
+    return { status: 204 };
+  }
+
+  private handleBatch(request: EmulatorRequest): EmulatorResult {
+    const requests = Array.isArray(request.body.requests)
+      ? (request.body.requests as Record<string, unknown>[])
+      : [];
+
+    // snapshot the collections to rollback on failure
+    const snapshot = new Map(
+      Array.from(this.collections, ([key, c]) => [key, { ...c, records: new Map(c.records) }])
+    );
+    this.pendingEvents = [];
+
+    const results: EmulatorResult[] = [];
+    try {
+      for (let i = 0; i < requests.length; i++) {
+        const item = requests[i];
+        const url = new URL(String(item.url || ''), 'http://localhost');
+
+        const result = this.handle({
+          method: String(item.method || 'GET').toUpperCase(),
+          path: url.pathname,
+          query: url.searchParams,
+          body: (item.body as Record<string, unknown>) || {},
+          authorization: request.authorization,
+        });
+
+        if (result.status >= 400) {
+          this.collections = snapshot;
+          return validationError(
+            {
+              requests: {
+                [i]: {
+                  code: 'batch_request_failed',
+                  message: 'Batch request failed.',
+                  response: result.body,
+                },
+              },
+            },
+            'Batch transaction failed.'
+          );
+        }
+
+        results.push(result);
+      }
+    } finally {
+      const events = this.pendingEvents;
+      this.pendingEvents = null;
+
+      // emit the events only for committed transactions
+      if (results.length === requests.length) {
+        events.forEach((event) => this.emit(event));
+      }
+    }
+
+    return {
+      status: 200,
+      body: results.map((r) => ({ status: r.status, body: r.body ?? null })),
+    };
+  }
+
+  private handleRealtime(request: EmulatorRequest): EmulatorResult {
+    const client = this.realtimeClients.get(String(request.body.clientId || ''));
+    if (!client) {
+      return notFound();
+    }
+
+    client.topics = Array.isArray(request.body.subscriptions)
+      ? request.body.subscriptions.map(String)
+      : [];
+
+    return { status: 204 };
+  }
+
+  private handleAuthWithPassword(
+    collection: EmulatorCollection,
+    request: EmulatorRequest
+  ): EmulatorResult {
+    const { identity, password } = request.body;
+
+    const record = Array.from(collection.records.values()).find(
+      (r) =>
+        (r.email === identity || r.username === identity) &&
+        r.password !== undefined &&
+        r.password === password
+    );
+
+    if (!identity || !record) {
+      return errorResult(400, 'Failed to authenticate.');
+    }
+
+    return { status: 200, body: this.authResponse(collection, record) };
+  }
+
+  private handleAuthRefresh(
+    collection: EmulatorCollection,
+    request: EmulatorRequest
+  ): EmulatorResult {
+    const payload = decodeToken(request.authorization.replace(/^Bearer\s+/i, ''));
+    const record =
+      payload.collectionId === collection.id &&
+      typeof payload.exp === 'number' &&
+      payload.exp * 1000 > Date.now()
+        ? collection.records.get(String(payload.id))
+        : undefined;
+
+    if (!record) {
+      return errorResult(401, 'The request requires valid record authorization token.');
+    }
+
+    return { status: 200, body: this.authResponse(collection, record) };
+  }
+
+  private authResponse(
+    collection: EmulatorCollection,
+    record: Record<string, unknown>
+  ): Record<string, unknown> {
+    const header = { alg: 'HS256', typ: 'JWT' };
+    const payload = {
+      id: record.id,
+      collectionId: collection.id,
+      type: 'auth',
+      refreshable: true,
+      exp: Math.floor(Date.now() / 1000) + this.tokenDuration,
+    };
+
+    const token = [
+      base64URL(JSON.stringify(header)),
+      base64URL(JSON.stringify(payload)),
+      base64URL(randomId()),
+    ].join('.');
+
+    return { token, record: publicRecord(collection, record) };
+  }
+
+  private emit(event: RealtimeEvent): void {
+    if (this.pendingEvents) {
+      this.pendingEvents.push(event);
+      return;
+    }
+
+    const { collection, action, record } = event;
+    const topics = [
+      `${collection.name}/*`,
+      `${collection.name}/${record.id}`,
+      `${collection.id}/*`,
+      `${collection.id}/${record.id}`,
+    ];
+
+    for (const client of this.realtimeClients.values()) {
+      for (const topic of client.topics.filter((t) => topics.includes(t))) {
+        client.source.dispatch('message', { topic, action, record });
+      }
+    }
+  }
+
+  private newRecord(
+    collection: EmulatorCollection,
+    data: Record<string, unknown>
+  ): Record<string, unknown> {
+    const created = now();
+    const record: Record<string, unknown> = {
+      ...data,
+      id: typeof data.id === 'string' && data.id ? data.id : randomId(),
+      created,
+      updated: created,
+    };
+    delete record.passwordConfirm;
+
+    return record;
+  }
+
+  private collection(idOrName: string): EmulatorCollection {
+    let collection = this.findCollection(idOrName);
+    if (!collection) {
+      collection = { id: `pbc_${idOrName}`, name: idOrName, records: new Map() };
+      this.collections.set(idOrName, collection);
+    }
+    return collection;
+  }
+
+  private findCollection(idOrName: string): EmulatorCollection | undefined {
+    return (
+      this.collections.get(idOrName) ||
+      Array.from(this.collections.values()).find((c) => c.id === idOrName)
+    );
+  }
+}
+
+/**
+ * Minimal EventSource implementation driven by the emulator.
+ */
+class EmulatorEventSource {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+
+  readonly url: string;
+  readyState: number = EmulatorEventSource.CONNECTING;
+  onopen: ((e: Event) => void) | null = null;
+  onerror: ((e: Event) => void) | null = null;
+  onmessage: ((e: MessageEvent) => void) | null = null;
+
+  private listeners: Map<string, Array<(e: MessageEvent) => void>> = new Map();
+  private onClose: () => void;
+
+  constructor(url: string, onClose: () => void) {
+    this.url = url;
+    this.onClose = onClose;
+  }
+
+  addEventListener(type: string, listener: (e: MessageEvent) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener]);
+  }
+
+  removeEventListener(type: string, listener: (e: MessageEvent) => void): void {
+    this.listeners.set(
+      type,
+      (this.listeners.get(type) || []).filter((l) => l !== listener)
+    );
+  }
+
+  close(): void {
+    if (this.readyState !== EmulatorEventSource.CLOSED) {
+      this.readyState = EmulatorEventSource.CLOSED;
+      this.onClose();
+    }
+  }
+
+  dispatch(type: string, data: unknown): void {
+    if (this.readyState !== EmulatorEventSource.OPEN) {
+      return;
+    }
+
+    const event = { type, data: JSON.stringify(data) } as MessageEvent;
+
+    if (type === 'message') {
+      this.onmessage?.(event);
+    }
+
+    for (const listener of this.listeners.get(type) || []) {
+      listener(event);
+    }
+  }
+}
+
+function publicRecord(
+  collection: EmulatorCollection,
+  record: Record<string, unknown>
+): RecordModel {
+  const result: Record<string, unknown> = {
+    ...record,
+    collectionId: collection.id,
+    collectionName: collection.name,
+  };
+
+  for (const field of HIDDEN_FIELDS) {
+    delete result[field];
+  }
+
+  return result as RecordModel;
+}
+
+function parseBody(body: RequestInit['body']): Record<string, unknown> {
+  if (typeof body === 'string') {
+    try {
+      const data = JSON.parse(body);
+      return data !== null && typeof data === 'object' ? data : {};
+    } catch {
+      return {};
+    }
+  }
+
+  if (body instanceof FormData) {
+    const data: Record<string, unknown> = {};
+    body.forEach((value, key) => {
+      // files are stored by their name
+      const entry = typeof value === 'string' ? value : value.name;
+      if (key in data) {
+        data[key] = ([] as unknown[]).concat(data[key], entry);
+      } else {
+        data[key] = entry;
+      }
+    });
+    return data;
+  }
+
+  return {};
+}
+
+function errorResult(
+  status: number,
+  message: string,
+  data: Record<string, unknown> = {}
+): EmulatorResult {
+  return { status, body: { status, message, data } };
+}
+
+function notFound(): EmulatorResult {
+  return errorResult(404, "The requested resource wasn't found.");
+}
+
+function validationError(
+  data: Record<string, unknown>,
+  message = 'Failed to process the request.'
+): EmulatorResult {
+  return errorResult(400, message, data);
+}
+
+function now(): string {
+  return new Date().toISOString().replace('T', ' ');
+}
+
+function randomId(): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 15; i++) {
+    id += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return id;
+}
+
+function base64URL(str: string): string {
+  return btoa(str).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -0,0 +1,196 @@
+import { parseFilter } from '../tools/filterParser';
+import type { FilterNode, FilterOperandNode } from '../tools/filterParser';
+
+/**
+ * Minimal evaluator for the subset of the PocketBase filter syntax
+ * supported by the emulator (parsed with `parseFilter`):
+ *
+ * - comparison operators `=`, `!=`, `>`, `>=`, `<`, `<=`, `~` and `!~`
+ *   and their "any of" `?` variants (e.g. `tags ?= 'a'`)
+ * - `&&` and `||` with parenthesized groups
+ * - string, number, `true`, `false` and `null` literals
+ * - dotted field paths (e.g. `meta.category`)
+ * - the `:length`, `:lower` and `:each` field modifiers
+ */
+
+type Predicate = (record: Record<string, unknown>) => boolean;
+
+type Operand = (record: Record<string, unknown>) => unknown;
+
+/**
+ * Compiles the filter expression into a record predicate.
+ *
+ * Throws an error for unsupported or invalid expressions.
+ */
+export function compileFilter(expr: string): Predicate {
+  const node = parseFilter(expr);
+  if (!node) {
+    return () => true;
+  }
+
+  return compileNode(node);
+}
+
+/**
+ * Sorts the records in place by the PocketBase sort expression (e.g. `-created,title`).
+ */
+export function sortRecords(records: Record<string, unknown>[], sort: string): void {
+  const fields = sort
+    .split(',')
+    .map((f) => f.trim())
+    .filter(Boolean)
+    .map((f) => ({
+      desc: f.startsWith('-'),
+      path: f.replace(/^[-+]/, ''),
+    }));
+
+  if (!fields.length) {
+    return;
+  }
+
+  records.sort((a, b) => {
+    for (const { desc, path } of fields) {
+      const result = compareValues(resolveField(a, path), resolveField(b, path));
+      if (result !== 0) {
+        return desc ? -result : result;
+      }
+    }
+    return 0;
+  });
+}
+
+function compileNode(node: FilterNode): Predicate {
+  if (node.type === 'logical') {
+    const items = node.items.map(compileNode);
+    return node.op === '&&'
+      ? (record) => items.every((item) => item(record))
+      : (record) => items.some((item) => item(record));
+  }
+
+  const left = compileOperand(node.left);
+  const right = compileOperand(node.right);
+
+  // "any of" operators and the :each modifier compare the single array items
+  const anyOf = node.op.startsWith('?');
+  const op = anyOf ? node.op.slice(1) : node.op;
+  const each = node.left.type === 'identifier' && node.left.modifier === 'each';
+
+  if (anyOf || each) {
+    return (record) => {
+      const values = toArray(left(record));
+      const value = right(record);
+      const match = (item: unknown) => compare(item, op, value);
+      return each ? values.length > 0 && values.every(match) : values.some(match);
+    };
+  }
+
+  return (record) => compare(left(record), op, right(record));
+}
+
+function compileOperand(node: FilterOperandNode): Operand {
+  if (node.type === 'literal') {
+    return () => node.value;
+  }
+
+  if (node.name.startsWith('@')) {
+    throw new Error(`Unsupported filter identifier "${node.name}".`);
+  }
+
+  switch (node.modifier) {
+    case null:
+    case 'each':
+      return (record) => resolveField(record, node.name);
+    case 'length':
+      return (record) => toArray(resolveField(record, node.name)).length;
+    case 'lower':
+      return (record) => String(resolveField(record, node.name) ?? '').toLowerCase();
+  }
+
+  throw new Error(`Unsupported filter modifier ":${node.modifier}".`);
+}
+
+function toArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value === null || value === undefined || value === '' ? [] : [value];
+}
+
+function resolveField(record: Record<string, unknown>, path: string): unknown {
+  let value: unknown = record;
+  for (const part of path.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function compare(left: unknown, op: string, right: unknown): boolean {
+  // missing fields behave as empty values
+  left = left ?? null;
+  right = right ?? null;
+
+  switch (op) {
+    case '=':
+      return isEmpty(left) && isEmpty(right) ? true : compareValues(left, right) === 0;
+    case '!=':
+      return !compare(left, '=', right);
+    case '>':
+      return compareValues(left, right) > 0;
+    case '>=':
+      return compareValues(left, right) >= 0;
+    case '<':
+      return compareValues(left, right) < 0;
+    case '<=':
+      return compareValues(left, right) <= 0;
+    case '~':
+      return like(left, right);
+    case '!~':
+      return !like(left, right);
+  }
+
+  return false;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === '';
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    return Number(!!a) - Number(!!b);
+  }
+
+  const strA = a === null || a === undefined ? '' : String(a);
+  const strB = b === null || b === undefined ? '' : String(b);
+
+  return strA < strB ? -1 : strA > strB ? 1 : 0;
+}
+
+function like(value: unknown, pattern: unknown): boolean {
+  const str = String(value ?? '').toLowerCase();
+  let search = String(pattern ?? '').toLowerCase();
+
+  // without explicit wildcards the pattern matches anywhere
+  if (!search.includes('%')) {
+    search = `%${search}%`;
+  }
+
+  const regex = new RegExp(
+    '^' +
+      search
+        .split('%')
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*') +
+      '$',
+    's'
+  );
+
+  return regex.test(str);
+}
@@ -0,0 +1,27 @@
+/**
+ * Testing utilities for PocketBase SDK.
+ *
+ * The emulator is an in-memory PocketBase server that allows running
+ * integration-style tests without a real server or hand-written fetch mocks.
+ *
+ * @example
+ * ```ts
+ * import PocketBase from 'pocketbase';
+ * import { PocketBaseEmulator } from 'pocketbase/testing';
+ *
+ * const emulator = new PocketBaseEmulator({
+ *   collections: {
+ *     users: [{ email: 'test@example.com', password: '1234567890' }],
+ *   },
+ * });
+ *
+ * const pb = new PocketBase('http://127.0.0.1:8090');
+ * emulator.attach(pb);
+ *
+ * await pb.collection('users').authWithPassword('test@example.com', '1234567890');
+ * await pb.collection('posts').create({ title: 'Hello' });
+ * ```
+ */
+
+export { PocketBaseEmulator } from './Emulator';
+export type { EmulatorOptions } from './Emulator';
@@ -0,0 +1,204 @@
+import type PocketBase from '../PocketBase';
+import type { Middleware, SendRequest } from './middleware';
+import { ClientResponseError } from '../ClientResponseError';
+import { decodeToken, isTokenExpired } from '../stores/BaseAuthStore';
+
+/**
+ * Options for the auth auto refresh mode.
+ */
+export interface AutoRefreshOptions {
+  /**
+   * How long (in ms) before the token expiration it should be refreshed.
+   * @default 300000 (5 minutes)
+   */
+  threshold?: number;
+
+  /**
+   * Whether to also refresh the token on a timer (useful for long-lived
+   * tabs and workers). Otherwise the token is refreshed lazily on `send()`.
+   * @default false
+   */
+  timer?: boolean;
+}
+
+// the max setTimeout delay (~24.8 days)
+const MAX_TIMER_DELAY = 2147483647;
+
+// auth endpoints that must not trigger a refresh
+const AUTH_PATH_REGEX = /^\/api\/collections\/[^/]+\/auth-/;
+
+/**
+ * AuthRefresher keeps the client auth token fresh by calling
+ * `RecordService.authRefresh` for the collection the token belongs to.
+ */
+export class AuthRefresher {
+  private client: PocketBase;
+  private threshold: number;
+  private refreshPromise: Promise<boolean> | null = null;
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private removeStoreListener: (() => void) | null = null;
+
+  constructor(client: PocketBase, options: AutoRefreshOptions = {}) {
+    this.client = client;
+    this.threshold = options.threshold ?? 5 * 60 * 1000;
+
+    if (options.timer) {
+      this.removeStoreListener = this.client.authStore.onChange(
+        () => this.schedule(),
+        true
+      );
+    }
+  }
+
+  /**
+   * Middleware that refreshes the token before it expires and replays
+   * once the requests that failed with 401.
+   */
+  middleware: Middleware = async (request, next) => {
+    const token = this.client.authStore.token;
+
+    if (!token || AUTH_PATH_REGEX.test(request.path)) {
+      return next(request);
+    }
+
+    if (this.isExpiring(token)) {
+      await this.refresh();
+      this.updateAuthHeader(request, token);
+    }
+
+    const sentToken = this.authHeader(request);
+    const result = await next(request);
+
+    if (
+      result.response.status !== 401 ||
+      !sentToken ||
+      (sentToken !== token && sentToken !== this.client.authStore.token)
+    ) {
+      return result;
+    }
+
+    // refresh only if the token wasn't already refreshed in the meantime
+    const refreshed =
+      this.client.authStore.token !== sentToken || (await this.refresh());
+
+    if (!refreshed || !this.client.authStore.token) {
+      return result;
+    }
+
+    this.updateAuthHeader(request, sentToken);
+
+    return next(request);
+  };
+
+  /**
+   * Refreshes the auth token.
+   *
+   * Concurrent calls share a single in-flight refresh request.
+   * Resolves to `false` if the refresh failed (the store is cleared if
+   * the server rejected the token).
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.doRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Stops the refresh timer and detaches the auth store listener.
+   */
+  dispose(): void {
+    if (this.timerId) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+
+    this.removeStoreListener?.();
+    this.removeStoreListener = null;
+  }
+
+  private async doRefresh(): Promise<boolean> {
+    const authStore = this.client.authStore;
+    const collection =
+      (decodeToken(authStore.token).collectionId as string) ||
+      authStore.record?.collectionId;
+
+    if (!collection) {
+      return false;
+    }
+
+    try {
+      await this.client
+        .collection(collection)
+        .authRefresh({ requestKey: null });
+      return true;
+    } catch (err) {
+      // keep the current auth state on network failures and cancellations
+      if (err instanceof ClientResponseError && err.status !== 0) {
+        authStore.clear();
+      }
+      return false;
+    }
+  }
+
+  /**
+   * (Re)schedules the refresh timer based on the current token expiration.
+   */
+  private schedule(): void {
+    if (this.timerId) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+
+    const exp = decodeToken(this.client.authStore.token).exp as number | undefined;
+    if (!exp) {
+      return;
+    }
+
+    const delay = Math.max(0, exp * 1000 - this.threshold - Date.now());
+
+    this.timerId = setTimeout(() => {
+      this.timerId = null;
+      if (this.isExpiring(this.client.authStore.token)) {
+        this.refresh();
+      } else {
+        this.schedule();
+      }
+    }, Math.min(delay, MAX_TIMER_DELAY));
+
+    // don't keep Node processes alive just for the refresh timer
+    (this.timerId as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Checks whether the token expires within the refresh threshold
+   * (tokens without "exp" claim are never refreshed).
+   */
+  private isExpiring(token: string): boolean {
+    return !!decodeToken(token).exp && isTokenExpired(token, this.threshold);
+  }
+
+  private authHeader(request: SendRequest): string {
+    return (request.init.headers as Record<string, string>)['Authorization'] || '';
+  }
+
+  /**
+   * Replaces the request Authorization header with the current store token
+   * (only if the request was sent with the old store token).
+   */
+  private updateAuthHeader(request: SendRequest, oldToken: string): void {
+    const headers = request.init.headers as Record<string, string>;
+    if (headers['Authorization'] !== oldToken) {
+      return;
+    }
+
+    if (this.client.authStore.token) {
+      headers['Authorization'] = this.client.authStore.token;
+    } else {
+      delete headers['Authorization'];
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import type PocketBase from '../PocketBase';
+import { ClientResponseError } from '../ClientResponseError';
+import type { Middleware, SendResponse } from './middleware';
+import type { SendOptions } from './options';
+
+/**
+ * Circuit breaker state.
+ *
+ * - `closed` - the requests are sent normally
+ * - `open` - the requests fail fast with a `CircuitOpenError`
+ * - `half-open` - a `/api/health` probe is in progress (the requests still fail fast)
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker options.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Number of consecutive failures (network errors, timeouts and 5xx responses)
+   * that opens the circuit.
+   * @default 5
+   */
+  threshold?: number;
+
+  /**
+   * Time window (in ms) in which the consecutive failures are counted.
+   * @default 30000
+   */
+  window?: number;
+
+  /**
+   * Interval (in ms) between the `/api/health` probes while the circuit is open.
+   * @default 5000
+   */
+  probeInterval?: number;
+}
+
+export type OnCircuitStateChangeFunc = (state: CircuitState, prevState: CircuitState) => void;
+
+/**
+ * CircuitBreaker stops sending requests to an unresponsive PocketBase
+ * instance and fails them fast until a health check probe succeeds.
+ */
+export class CircuitBreaker {
+  private client: PocketBase;
+  private threshold = 5;
+  private window = 30000;
+  private probeInterval = 5000;
+  private _enabled = false;
+  private _state: CircuitState = 'closed';
+  private failures = 0;
+  private firstFailureAt = 0;
+  private probeTimerId: ReturnType<typeof setTimeout> | null = null;
+  private probeOptions: WeakSet<SendOptions> = new WeakSet();
+  private _onStateChangeCallbacks: OnCircuitStateChangeFunc[] = [];
+
+  constructor(client: PocketBase) {
+    this.client = client;
+  }
+
+  /**
+   * Returns whether the circuit breaker is enabled.
+   */
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  /**
+   * Returns the current circuit state.
+   */
+  get state(): CircuitState {
+    return this._state;
+  }
+
+  /**
+   * Enables the circuit breaker (in closed state).
+   */
+  enable(options: CircuitBreakerOptions = {}): void {
+    this.disable();
+
+    this.threshold = options.threshold ?? 5;
+    this.window = options.window ?? 30000;
+    this.probeInterval = options.probeInterval ?? 5000;
+    this._enabled = true;
+  }
+
+  /**
+   * Disables the circuit breaker and closes the circuit.
+   */
+  disable(): void {
+    this._enabled = false;
+    this.reset();
+  }
+
+  /**
+   * Closes the circuit and resets the failures counter.
+   */
+  reset(): void {
+    this.failures = 0;
+    this.firstFailureAt = 0;
+    this.clearProbeTimer();
+    this.setState('closed');
+  }
+
+  /**
+   * Registers a callback that is invoked when the circuit state changes.
+   *
+   * Returns a removal function that you can call to unsubscribe.
+   */
+  onStateChange(callback: OnCircuitStateChangeFunc): () => void {
+    this._onStateChangeCallbacks.push(callback);
+
+    return () => {
+      const index = this._onStateChangeCallbacks.indexOf(callback);
+      if (index !== -1) {
+        this._onStateChangeCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Middleware that fails the requests fast while the circuit is open
+   * and records the failures while it is closed.
+   */
+  middleware: Middleware = async (request, next) => {
+    if (!this._enabled || this.probeOptions.has(request.options)) {
+      return next(request);
+    }
+
+    if (this._state !== 'closed') {
+      throw ClientResponseError.fromError({
+        url: request.url,
+        isCircuitOpen: true,
+      });
+    }
+
+    let result: SendResponse;
+    try {
+      result = await next(request);
+    } catch (err) {
+      if (
+        err instanceof ClientResponseError &&
+        (err.kind === 'network' || err.kind === 'timeout')
+      ) {
+        this.recordFailure();
+      }
+      throw err;
+    }
+
+    if (result.response.status >= 500) {
+      this.recordFailure();
+    } else {
+      this.failures = 0;
+    }
+
+    return result;
+  };
+
+  private recordFailure(): void {
+    const now = Date.now();
+
+    if (!this.failures || now - this.firstFailureAt > this.window) {
+      this.failures = 0;
+      this.firstFailureAt = now;
+    }
+
+    this.failures++;
+
+    if (this.failures >= this.threshold && this._state === 'closed') {
+      this.setState('open');
+      this.scheduleProbe();
+    }
+  }
+
+  private scheduleProbe(): void {
+    this.clearProbeTimer();
+
+    this.probeTimerId = setTimeout(() => {
+      this.probeTimerId = null;
+      this.probe();
+    }, this.probeInterval);
+
+    // allow Node processes to exit while the circuit is open
+    (this.probeTimerId as { unref?: () => void }).unref?.();
+  }
+
+  private async probe(): Promise<void> {
+    const options: SendOptions = { method: 'GET', requestKey: null, retry: false };
+    this.probeOptions.add(options);
+
+    this.setState('half-open');
+
+    try {
+      await this.client.send('/api/health', options);
+    } catch {
+      if (this._enabled && this._state === 'half-open') {
+        this.setState('open');
+        this.scheduleProbe();
+      }
+      return;
+    }
+
+    if (this._enabled && this._state === 'half-open') {
+      this.reset();
+    }
+  }
+
+  private clearProbeTimer(): void {
+    if (this.probeTimerId) {
+      clearTimeout(this.probeTimerId);
+      this.probeTimerId = null;
+    }
+  }
+
+  private setState(state: CircuitState): void {
+    const prevState = this._state;
+    if (state === prevState) {
+      return;
+    }
+
+    this._state = state;
+
+    this.client.instrumentation.emit({
+      type: 'breaker:state',
+      state,
+      prevState,
+      timestamp: Date.now(),
+    });
+
+    for (const callback of this._onStateChangeCallbacks) {
+      callback(state, prevState);
+    }
+  }
+}
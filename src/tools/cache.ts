@@ -0,0 +1,264 @@
+import type PocketBase from '../PocketBase';
+import type { CacheOptions } from './options';
+import type { Middleware, SendRequest } from './middleware';
+
+/**
+ * Public info about a single cache entry (used for predicate invalidation).
+ */
+export interface CacheEntryInfo {
+  key: string;
+  path: string;
+  tags: string[];
+  expires: number;
+}
+
+interface CacheEntry extends CacheEntryInfo {
+  serialized: string;
+  status: number;
+  headers: [string, string][];
+}
+
+// records CRUD paths - /api/collections/{collection}/records[/{id}]
+const RECORDS_PATH_REGEX = /^\/api\/collections\/([^/]+)\/records(\/|$)/;
+
+const BATCH_PATH = '/api/batch';
+
+const DEFAULT_TTL = 60 * 1000;
+
+/**
+ * ResponseCache is an in-memory cache for GET requests sent with
+ * the `cache` option (e.g. `getOne(id, { cache: { ttl: 5000 } })`).
+ *
+ * Entries are keyed on the request url (path + query) and headers (including the
+ * auth token, but not the generated correlation id).
+ * Records entries are automatically tagged with `collection:{name}` (the collection
+ * ids are resolved from the `collectionId`/`collectionName` of the returned records)
+ * and invalidated by the create/update/delete and batch requests to the same collection.
+ */
+export class ResponseCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private collectionNames: Map<string, string> = new Map(); // id -> name
+  private client: PocketBase;
+
+  constructor(client: PocketBase) {
+    this.client = client;
+  }
+
+  /**
+   * Returns the number of fresh entries.
+   */
+  get size(): number {
+    this.prune();
+    return this.entries.size;
+  }
+
+  /**
+   * Removes all entries with the specified tag or matching the predicate.
+   *
+   * Returns the number of removed entries.
+   */
+  invalidate(tagOrPredicate: string | ((entry: CacheEntryInfo) => boolean)): number {
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      const match =
+        typeof tagOrPredicate === 'string'
+          ? entry.tags.includes(tagOrPredicate)
+          : tagOrPredicate({
+              key: entry.key,
+              path: entry.path,
+              tags: [...entry.tags],
+              expires: entry.expires,
+            });
+
+      if (match) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Removes all cache entries.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Middleware that serves the cached GET responses and invalidates
+   * the collection entries on records mutations.
+   */
+  middleware: Middleware = async (request, next) => {
+    const method = (request.init.method || 'GET').toUpperCase();
+    const collection = RECORDS_PATH_REGEX.exec(request.path)?.[1];
+
+    if (method !== 'GET') {
+      const result = await next(request);
+      if (result.response.ok) {
+        this.learnCollections(result.data);
+
+        if (request.path === BATCH_PATH) {
+          this.invalidateBatch(request.options.body);
+        } else if (collection) {
+          this.invalidateCollection(collection);
+        }
+      }
+      return result;
+    }
+
+    const options = resolveCacheOptions(request.options.cache);
+    // only the JSON/text responses can be stored
+    const responseType = request.options.responseType || 'auto';
+    if (!options || (responseType !== 'auto' && responseType !== 'text')) {
+      return next(request);
+    }
+
+    const key = this.cacheKey(request);
+    const entry = this.entries.get(key);
+    if (entry && entry.expires <= Date.now()) {
+      this.entries.delete(key);
+    } else if (entry) {
+      return {
+        response: new Response(null, {
+          status: entry.status,
+          headers: entry.headers,
+        }),
+        data: JSON.parse(entry.serialized),
+      };
+    }
+
+    const result = await next(request);
+
+    if (result.response.ok && result.data !== undefined) {
+      this.learnCollections(result.data);
+
+      const tags = [...(options.tags || [])];
+      if (collection) {
+        tags.push(this.collectionTag(collection));
+      }
+
+      const headers: [string, string][] = [];
+      result.response.headers.forEach((value, name) => headers.push([name, value]));
+
+      this.prune();
+      this.entries.set(key, {
+        key,
+        path: request.path,
+        tags,
+        expires: Date.now() + (options.ttl ?? DEFAULT_TTL),
+        serialized: JSON.stringify(result.data),
+        status: result.response.status,
+        headers,
+      });
+    }
+
+    return result;
+  };
+
+  /**
+   * Removes the expired entries.
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expires <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Returns the key of the request entry (url and sorted headers
+   * without the correlation id header).
+   */
+  private cacheKey(request: SendRequest): string {
+    const headers = Object.entries(request.init.headers as Record<string, string>)
+      .filter(([name]) => name !== this.client.requestIdHeader)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return JSON.stringify([request.url, headers]);
+  }
+
+  /**
+   * Returns the tag of the collection entries (resolving the known collection ids to names).
+   */
+  private collectionTag(idOrName: string): string {
+    const decoded = decodeURIComponent(idOrName);
+    return `collection:${this.collectionNames.get(decoded) || decoded}`;
+  }
+
+  /**
+   * Removes the entries of the collection
+   * (including the ones tagged with its id before the id was resolved).
+   */
+  private invalidateCollection(idOrName: string): void {
+    const tag = this.collectionTag(idOrName);
+    const tags = [tag, `collection:${decodeURIComponent(idOrName)}`];
+
+    for (const [id, name] of this.collectionNames) {
+      if (`collection:${name}` === tag) {
+        tags.push(`collection:${id}`);
+      }
+    }
+
+    this.invalidate((entry) => entry.tags.some((t) => tags.includes(t)));
+  }
+
+  /**
+   * Removes the entries of the collections modified by a batch request
+   * (or all entries if the batch requests can't be resolved).
+   */
+  private invalidateBatch(body: unknown): void {
+    const requests = (body as { requests?: unknown } | null)?.requests;
+    if (!Array.isArray(requests)) {
+      this.clear();
+      return;
+    }
+
+    for (const item of requests) {
+      const url = typeof item?.url === 'string' ? item.url.split('?')[0] : '';
+      const collection = RECORDS_PATH_REGEX.exec(url)?.[1];
+      if (!collection) {
+        this.clear();
+        return;
+      }
+      this.invalidateCollection(collection);
+    }
+  }
+
+  /**
+   * Stores the collection id -> name pairs of the returned records
+   * (single record, list result or batch results).
+   */
+  private learnCollections(data: unknown): void {
+    let records: unknown[] = [data];
+    if (Array.isArray(data)) {
+      records = data.map((item) => item?.body);
+    } else if (Array.isArray((data as { items?: unknown } | null)?.items)) {
+      records = (data as { items: unknown[] }).items;
+    }
+
+    for (const record of records) {
+      const { collectionId, collectionName } = (record || {}) as Record<string, unknown>;
+      if (typeof collectionId === 'string' && typeof collectionName === 'string') {
+        this.collectionNames.set(collectionId, collectionName);
+      }
+    }
+  }
+}
+
+function resolveCacheOptions(cache: unknown): CacheOptions | null {
+  if (cache === true) {
+    return {};
+  }
+
+  if (cache !== null && typeof cache === 'object') {
+    return cache as CacheOptions;
+  }
+
+  // false, undefined or a fetch RequestCache string
+  return null;
+}
@@ -0,0 +1,518 @@
+import { ClientResponseError } from '../ClientResponseError';
+import type { Middleware } from './middleware';
+
+/**
+ * HAR name/value pair.
+ */
+export interface CassetteNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * Single recorded request/response pair (HAR 1.2 entry).
+ *
+ * Failed requests (network errors) are recorded with status `0`
+ * and the error message in `response._error`.
+ */
+export interface CassetteEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: CassetteNameValue[];
+    queryString: CassetteNameValue[];
+    cookies: CassetteNameValue[];
+    postData?: {
+      mimeType: string;
+      text?: string;
+      params?: Array<CassetteNameValue & { fileName?: string }>;
+    };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: CassetteNameValue[];
+    cookies: CassetteNameValue[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _error?: string;
+  };
+  cache: Record<string, unknown>;
+  timings: {
+    send: number;
+    wait: number;
+    receive: number;
+  };
+}
+
+/**
+ * Recorded requests in the HAR 1.2 format.
+ */
+export interface Cassette {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: CassetteEntry[];
+  };
+}
+
+/**
+ * Cassette recorder options.
+ */
+export interface CassetteRecorderOptions {
+  /**
+   * Names of the request and response headers whose values are redacted.
+   * @default ['Authorization', 'Cookie', 'Set-Cookie']
+   */
+  redactHeaders?: string[];
+
+  /**
+   * Names of the JSON request and response body fields (at any depth)
+   * whose values are redacted.
+   * @default ['token', 'password', 'passwordConfirm', 'oldPassword']
+   */
+  redactFields?: string[];
+
+  /**
+   * Optional hook for additional redaction.
+   * The entry can be modified in place or a new one returned.
+   */
+  redact?: (entry: CassetteEntry) => CassetteEntry | void;
+}
+
+/**
+ * Cassette player options.
+ */
+export interface CassettePlayerOptions {
+  /**
+   * Whether the request body must match the recorded one.
+   * @default true
+   */
+  matchBody?: boolean;
+}
+
+type FetchFunc = (url: RequestInfo | URL, config?: RequestInit) => Promise<Response>;
+
+const REDACTED = '[REDACTED]';
+
+const DEFAULT_REDACT_FIELDS = ['token', 'password', 'passwordConfirm', 'oldPassword'];
+
+/**
+ * CassetteRecorder captures every request sent by the client
+ * (e.g. `pb.use(recorder.middleware)`) and its response.
+ */
+export class CassetteRecorder {
+  private entries: CassetteEntry[] = [];
+  private redactHeaders: string[];
+  private redactFields: string[];
+  private redact?: CassetteRecorderOptions['redact'];
+
+  constructor(options: CassetteRecorderOptions = {}) {
+    const redactHeaders = options.redactHeaders || ['Authorization', 'Cookie', 'Set-Cookie'];
+    this.redactHeaders = redactHeaders.map((name) => name.toLowerCase());
+    const redactFields = options.redactFields || DEFAULT_REDACT_FIELDS;
+    this.redactFields = redactFields.map((name) => name.toLowerCase());
+    this.redact = options.redact;
+  }
+
+  /**
+   * Returns the number of recorded entries.
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Returns the recorded entries as a HAR compatible cassette
+   * (e.g. `fs.writeFileSync('cassette.json', JSON.stringify(recorder.cassette()))`).
+   */
+  cassette(): Cassette {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'pocketbase', version: '' },
+        entries: this.entries.map((entry) => JSON.parse(JSON.stringify(entry))),
+      },
+    };
+  }
+
+  /**
+   * Removes all recorded entries.
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Middleware that records the fetch calls of the request.
+   */
+  middleware: Middleware = (request, next) => {
+    const fetchFunc = this.recordingFetch(
+      request.options.fetch || ((url, init) => request.transport.fetch(String(url), init || {}))
+    );
+
+    return next({ ...request, options: { ...request.options, fetch: fetchFunc } });
+  };
+
+  private recordingFetch(fetchFunc: FetchFunc): FetchFunc {
+    return async (url, init = {}) => {
+      const started = new Date();
+
+      let response: Response;
+      try {
+        response = await fetchFunc(url, init);
+      } catch (err) {
+        // aborted requests are not part of the recorded conversation
+        if ((err as Error)?.name !== 'AbortError' && !init.signal?.aborted) {
+          this.add(this.createEntry(String(url), init, started, null, '', err));
+        }
+        throw err;
+      }
+
+      const text = await response
+        .clone()
+        .text()
+        .catch(() => '');
+      this.add(this.createEntry(String(url), init, started, response, text));
+
+      return response;
+    };
+  }
+
+  private add(entry: CassetteEntry): void {
+    if (entry.request.postData?.text) {
+      entry.request.postData.text = redactJSON(entry.request.postData.text, this.redactFields);
+    }
+    if (entry.response.content.text) {
+      entry.response.content.text = redactJSON(entry.response.content.text, this.redactFields);
+    }
+
+    this.entries.push(this.redact?.(entry) || entry);
+  }
+
+  private createEntry(
+    url: string,
+    init: RequestInit,
+    started: Date,
+    response: Response | null,
+    text: string,
+    error?: unknown
+  ): CassetteEntry {
+    const requestHeaders = this.headersList(new Headers(init.headers));
+    const responseHeaders = response ? this.headersList(response.headers) : [];
+    const time = Date.now() - started.getTime();
+
+    return {
+      startedDateTime: started.toISOString(),
+      time,
+      request: {
+        method: (init.method || 'GET').toUpperCase(),
+        url,
+        httpVersion: 'HTTP/1.1',
+        headers: requestHeaders,
+        queryString: queryList(url),
+        cookies: [],
+        postData: postData(init.body, requestHeaders),
+        headersSize: -1,
+        bodySize: -1,
+      },
+      response: {
+        status: response?.status || 0,
+        statusText: response?.statusText || '',
+        httpVersion: 'HTTP/1.1',
+        headers: responseHeaders,
+        cookies: [],
+        content: {
+          size: text.length,
+          mimeType: response?.headers.get('Content-Type') || '',
+          text,
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+        ...(error !== undefined
+          ? { _error: (error as Error)?.message || String(error) }
+          : {}),
+      },
+      cache: {},
+      timings: { send: 0, wait: time, receive: 0 },
+    };
+  }
+
+  private headersList(headers: Headers): CassetteNameValue[] {
+    const result: CassetteNameValue[] = [];
+    headers.forEach((value, name) => {
+      result.push({
+        name,
+        value: this.redactHeaders.includes(name.toLowerCase()) ? REDACTED : value,
+      });
+    });
+    return result;
+  }
+}
+
+/**
+ * CassettePlayer serves the client requests (e.g. `pb.use(player.middleware)`)
+ * from a recorded cassette.
+ *
+ * Each entry is replayed at most once and in the recorded order. Requests without
+ * a matching entry are rejected with a `ClientResponseError` describing the mismatch.
+ *
+ * Redacted fields of the recorded JSON request bodies match any value.
+ */
+export class CassettePlayer {
+  /**
+   * The requests that didn't match any of the remaining cassette entries.
+   */
+  readonly unmatched: string[] = [];
+
+  private entries: CassetteEntry[];
+  private used: Set<CassetteEntry> = new Set();
+  private matchBody: boolean;
+
+  constructor(cassette: Cassette | string, options: CassettePlayerOptions = {}) {
+    const data = (typeof cassette === 'string' ? JSON.parse(cassette) : cassette) as Cassette;
+    this.entries = data?.log?.entries || [];
+    this.matchBody = options.matchBody ?? true;
+  }
+
+  /**
+   * Returns the number of entries that haven't been replayed yet.
+   */
+  get pending(): number {
+    return this.entries.length - this.used.size;
+  }
+
+  /**
+   * Middleware that replays the request from the cassette.
+   */
+  middleware: Middleware = async (request, next) => {
+    try {
+      return await next({
+        ...request,
+        options: { ...request.options, fetch: this.fetch },
+      });
+    } catch (err) {
+      if (
+        err instanceof ClientResponseError &&
+        err.originalError instanceof CassetteMismatchError
+      ) {
+        // not a network failure - fail right away (no retries, failover or offline queue)
+        throw ClientResponseError.fromError({
+          url: err.url,
+          kind: 'unknown',
+          message: err.originalError.message,
+          originalError: err.originalError,
+        });
+      }
+      throw err;
+    }
+  };
+
+  /**
+   * Fetch compatible function that serves the requests from the cassette.
+   */
+  fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    if (init.signal?.aborted) {
+      throw init.signal.reason;
+    }
+
+    const url = String(input);
+    const method = (init.method || 'GET').toUpperCase();
+    const body = postData(init.body, []);
+
+    const entry = this.entries.find(
+      (e) =>
+        !this.used.has(e) &&
+        e.request.method === method &&
+        relativeURL(e.request.url) === relativeURL(url) &&
+        (!this.matchBody || sameBody(e.request.postData, body))
+    );
+
+    if (!entry) {
+      const description = `${method} ${relativeURL(url)}`;
+      this.unmatched.push(description);
+      throw new CassetteMismatchError(`No cassette entry matches the request ${description}.`);
+    }
+
+    this.used.add(entry);
+
+    if (!entry.response.status) {
+      throw new TypeError(entry.response._error || 'Failed to fetch');
+    }
+
+    const headers = new Headers();
+    for (const header of entry.response.headers) {
+      headers.append(header.name, header.value);
+    }
+
+    const text = entry.response.content.text;
+    return new Response(text && ![204, 304].includes(entry.response.status) ? text : null, {
+      status: entry.response.status,
+      statusText: entry.response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * Error thrown by the cassette player for requests without a matching entry.
+ */
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, CassetteMismatchError.prototype);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Redacts the values of the specified fields of a JSON body
+ * (non JSON bodies are returned unchanged).
+ */
+function redactJSON(text: string, fields: string[]): string {
+  if (!fields.length) {
+    return text;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return text;
+  }
+
+  let changed = false;
+  const walk = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+    } else if (value !== null && typeof value === 'object') {
+      const obj = value as Record<string, unknown>;
+      for (const key of Object.keys(obj)) {
+        if (fields.includes(key.toLowerCase()) && obj[key] !== null && obj[key] !== '') {
+          obj[key] = REDACTED;
+          changed = true;
+        } else {
+          walk(obj[key]);
+        }
+      }
+    }
+  };
+  walk(data);
+
+  return changed ? JSON.stringify(data) : text;
+}
+
+function relativeURL(url: string): string {
+  const parsed = new URL(url, 'http://localhost');
+  return parsed.pathname + parsed.search;
+}
+
+function queryList(url: string): CassetteNameValue[] {
+  const result: CassetteNameValue[] = [];
+  new URL(url, 'http://localhost').searchParams.forEach((value, name) => {
+    result.push({ name, value });
+  });
+  return result;
+}
+
+function postData(
+  body: RequestInit['body'],
+  headers: CassetteNameValue[]
+): CassetteEntry['request']['postData'] {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+
+  if (typeof body === 'string') {
+    const contentType = headers.find((h) => h.name.toLowerCase() === 'content-type');
+    return { mimeType: contentType?.value || 'text/plain', text: body };
+  }
+
+  if (body instanceof FormData) {
+    const params: Array<CassetteNameValue & { fileName?: string }> = [];
+    body.forEach((value, name) => {
+      params.push(
+        typeof value === 'string'
+          ? { name, value }
+          : { name, value: '', fileName: value.name }
+      );
+    });
+    return { mimeType: 'multipart/form-data', params };
+  }
+
+  // streams, blobs, etc.
+  return { mimeType: 'application/octet-stream' };
+}
+
+function sameBody(
+  recorded: CassetteEntry['request']['postData'],
+  actual: CassetteEntry['request']['postData']
+): boolean {
+  return (
+    sameText(recorded?.text ?? '', actual?.text ?? '') &&
+    JSON.stringify(recorded?.params || []) === JSON.stringify(actual?.params || [])
+  );
+}
+
+function sameText(recorded: string, actual: string): boolean {
+  if (recorded === actual) {
+    return true;
+  }
+
+  if (!recorded.includes(REDACTED)) {
+    return false;
+  }
+
+  try {
+    return matchesRedacted(JSON.parse(recorded), JSON.parse(actual));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compares two parsed JSON values, treating the recorded redacted values as wildcards.
+ */
+function matchesRedacted(recorded: unknown, actual: unknown): boolean {
+  if (recorded === REDACTED) {
+    return true;
+  }
+
+  if (Array.isArray(recorded)) {
+    return (
+      Array.isArray(actual) &&
+      recorded.length === actual.length &&
+      recorded.every((value, i) => matchesRedacted(value, actual[i]))
+    );
+  }
+
+  if (recorded !== null && typeof recorded === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+      return false;
+    }
+
+    const recordedObj = recorded as Record<string, unknown>;
+    const actualObj = actual as Record<string, unknown>;
+    const keys = Object.keys(recordedObj);
+
+    return (
+      keys.length === Object.keys(actualObj).length &&
+      keys.every((key) => key in actualObj && matchesRedacted(recordedObj[key], actualObj[key]))
+    );
+  }
+
+  return recorded === actual;
+}
@@ -0,0 +1,106 @@
+import { filter } from './filter';
+
+/**
+ * Single sort key of a cursor pagination.
+ */
+export interface CursorSortKey {
+  field: string;
+  desc: boolean;
+}
+
+/**
+ * Decoded cursor state.
+ */
+export interface CursorState {
+  /**
+   * The normalized sort expression the cursor was created with.
+   */
+  sort: string;
+
+  /**
+   * The sort key values of the last seen item.
+   */
+  values: unknown[];
+}
+
+/**
+ * Parses a sort expression (e.g. `-created,id`) into sort keys.
+ *
+ * The `id` key is appended (in the direction of the last key) if missing,
+ * so that the sort order is always stable.
+ */
+export function parseCursorSort(sort = 'created,id'): CursorSortKey[] {
+  const keys: CursorSortKey[] = sort
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => ({
+      field: part.replace(/^[-+]/, ''),
+      desc: part.startsWith('-'),
+    }));
+
+  if (!keys.some((key) => key.field === 'id')) {
+    keys.push({ field: 'id', desc: keys[keys.length - 1]?.desc ?? false });
+  }
+
+  return keys;
+}
+
+/**
+ * Returns the sort expression of the specified sort keys.
+ */
+export function cursorSortExpr(keys: CursorSortKey[]): string {
+  return keys.map((key) => (key.desc ? '-' : '') + key.field).join(',');
+}
+
+/**
+ * Builds the filter that continues after the item with the specified key values,
+ * e.g. `created > v0 || (created = v0 && id > v1)`.
+ */
+export function cursorFilter(keys: CursorSortKey[], values: unknown[]): string {
+  const params: Record<string, unknown> = {};
+  values.forEach((value, i) => {
+    params[`v${i}`] = value;
+  });
+
+  const conditions = keys.map((key, i) => {
+    const parts = keys.slice(0, i).map((prev, j) => `${prev.field} = {:v${j}}`);
+    parts.push(`${key.field} ${key.desc ? '<' : '>'} {:v${i}}`);
+    return parts.length > 1 ? `(${parts.join(' && ')})` : parts[0];
+  });
+
+  return filter(conditions.join(' || '), params);
+}
+
+/**
+ * Encodes the cursor state into an opaque url-safe string.
+ */
+export function encodeCursor(state: CursorState): string {
+  const bytes = new TextEncoder().encode(JSON.stringify({ s: state.sort, v: state.values }));
+
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor created with `encodeCursor()`.
+ */
+export function decodeCursor(cursor: string): CursorState {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const data = JSON.parse(new TextDecoder().decode(bytes)) as { s: unknown; v: unknown };
+
+    if (typeof data.s === 'string' && Array.isArray(data.v)) {
+      return { sort: data.s, values: data.v };
+    }
+  } catch {
+    // invalid encoding
+  }
+
+  throw new Error('Invalid pagination cursor.');
+}
@@ -0,0 +1,68 @@
+import type { DownloadRange } from './options';
+
+/**
+ * Streamed file or backup download.
+ */
+export interface DownloadResult {
+  /**
+   * The response body stream (in Node it can be converted with `Readable.fromWeb(body)`).
+   */
+  body: ReadableStream<Uint8Array>;
+
+  /**
+   * The response Content-Type.
+   */
+  contentType: string;
+
+  /**
+   * The response Content-Length (`null` if unknown).
+   */
+  contentLength: number | null;
+
+  /**
+   * The response status (`206` for partial content).
+   */
+  status: number;
+
+  /**
+   * The served byte range (`null` if the full content was served).
+   */
+  range: {
+    start: number;
+    end: number;
+    total: number | null;
+  } | null;
+}
+
+/**
+ * Returns the Range header value for the specified download range.
+ */
+export function rangeHeader(range: DownloadRange): string {
+  return `bytes=${range.start}-${range.end ?? ''}`;
+}
+
+/**
+ * Normalizes the raw fetch response into a DownloadResult.
+ */
+export function toDownloadResult(response: Response): DownloadResult {
+  const contentLength = response.headers.get('Content-Length');
+
+  // e.g. "bytes 100-199/1000" or "bytes 100-199/*"
+  const contentRange = /^bytes (\d+)-(\d+)\/(\d+|\*)$/.exec(
+    response.headers.get('Content-Range') || ''
+  );
+
+  return {
+    body: response.body || new Response('').body!,
+    contentType: response.headers.get('Content-Type') || '',
+    contentLength: contentLength !== null ? Number(contentLength) : null,
+    status: response.status,
+    range: contentRange
+      ? {
+          start: Number(contentRange[1]),
+          end: Number(contentRange[2]),
+          total: contentRange[3] === '*' ? null : Number(contentRange[3]),
+        }
+      : null,
+  };
+}
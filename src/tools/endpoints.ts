@@ -0,0 +1,284 @@
+import type PocketBase from '../PocketBase';
+import { ClientResponseError } from '../ClientResponseError';
+import type { Middleware } from './middleware';
+
+/**
+ * Routing policy for multiple endpoints.
+ *
+ * - `failover` - all requests are sent to the first healthy endpoint (primary first)
+ * - `read-replica` - GET/HEAD requests are sent to the first healthy replica (falling back
+ *   to the primary) and all other requests to the primary
+ */
+export type RoutingPolicy = 'failover' | 'read-replica';
+
+/**
+ * Endpoint pool options.
+ */
+export interface EndpointPoolOptions {
+  /**
+   * @default 'failover'
+   */
+  policy?: RoutingPolicy;
+
+  /**
+   * Min interval (in ms) between the health check probes of an unreachable endpoint.
+   * @default 10000
+   */
+  recoveryInterval?: number;
+
+  /**
+   * Methods of the requests that are resent to the next endpoint on network errors.
+   * The other requests fail right away, because they could have already been
+   * applied by the unreachable endpoint (e.g. a duplicated `POST`).
+   * @default ['GET', 'HEAD', 'OPTIONS']
+   */
+  failoverMethods?: string[];
+}
+
+/**
+ * Health status of a single endpoint.
+ */
+export interface EndpointStatus {
+  url: string;
+  healthy: boolean;
+  lastError?: string;
+  downSince?: number;
+}
+
+export type OnEndpointChangeFunc = (activeURL: string) => void;
+
+interface Endpoint extends EndpointStatus {
+  lastProbe: number;
+}
+
+const READ_METHODS = ['GET', 'HEAD'];
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * EndpointPool routes the client requests between a primary endpoint
+ * and its replicas (the first url is the primary).
+ *
+ * Endpoints failing with a network error are marked as unhealthy (and the idempotent
+ * requests are sent to the next endpoint) until a `HealthService.check` probe succeeds.
+ */
+export class EndpointPool {
+  /**
+   * The requests routing policy.
+   */
+  policy: RoutingPolicy;
+
+  /**
+   * Min interval (in ms) between the recovery probes of an unhealthy endpoint.
+   */
+  recoveryInterval: number;
+
+  /**
+   * Methods of the requests that are resent to the next endpoint on network errors.
+   */
+  failoverMethods: string[];
+
+  private client: PocketBase;
+  private endpoints: Endpoint[] = [];
+  private _onChangeCallbacks: OnEndpointChangeFunc[] = [];
+
+  constructor(client: PocketBase, urls: string[], options: EndpointPoolOptions = {}) {
+    this.client = client;
+    this.policy = options.policy || 'failover';
+    this.recoveryInterval = options.recoveryInterval ?? 10000;
+    this.failoverMethods = options.failoverMethods || IDEMPOTENT_METHODS;
+    this.setURLs(urls);
+  }
+
+  /**
+   * Returns the endpoint urls (primary first).
+   */
+  get urls(): string[] {
+    return this.endpoints.map((e) => e.url);
+  }
+
+  /**
+   * Returns the first healthy endpoint (or the primary if none is healthy).
+   *
+   * This is the endpoint used by `buildURL` (e.g. for the file urls
+   * and the realtime connection).
+   */
+  get active(): string {
+    return (this.endpoints.find((e) => e.healthy) || this.endpoints[0])?.url ?? '';
+  }
+
+  /**
+   * Replaces the endpoints (all of them are considered healthy).
+   */
+  setURLs(urls: string[]): void {
+    const prevActive = this.active;
+
+    this.endpoints = (urls.length ? urls : ['/']).map((url) => ({
+      url: url.replace(/\/+$/, ''),
+      healthy: true,
+      lastProbe: 0,
+    }));
+
+    this.notifyChange(prevActive);
+  }
+
+  /**
+   * Returns the health status of all endpoints.
+   */
+  status(): EndpointStatus[] {
+    return this.endpoints.map(({ url, healthy, lastError, downSince }) => ({
+      url,
+      healthy,
+      lastError,
+      downSince,
+    }));
+  }
+
+  /**
+   * Registers a callback that is invoked when the active endpoint changes.
+   *
+   * Returns a removal function that you can call to unsubscribe.
+   */
+  onChange(callback: OnEndpointChangeFunc): () => void {
+    this._onChangeCallbacks.push(callback);
+
+    return () => {
+      const index = this._onChangeCallbacks.indexOf(callback);
+      if (index !== -1) {
+        this._onChangeCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Returns the endpoint url the request url starts with (if any).
+   */
+  endpointFor(requestURL: string): string | undefined {
+    let result: string | undefined;
+
+    for (const { url } of this.endpoints) {
+      if (requestURL.startsWith(url) && (result === undefined || url.length > result.length)) {
+        result = url;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Middleware that sends the request to the endpoint selected by the routing
+   * policy (failing over on network errors of the `failoverMethods` requests).
+   */
+  middleware: Middleware = async (request, next) => {
+    const base = this.endpointFor(request.url);
+    if (base === undefined || request.options.baseURL) {
+      return next(request);
+    }
+
+    const suffix = request.url.slice(base.length);
+    const method = ((request.init.method as string) || 'GET').toUpperCase();
+    const failover = this.failoverMethods.some((m) => m.toUpperCase() === method);
+
+    let lastError: unknown = null;
+    for (const url of this.candidates(method)) {
+      try {
+        const result = await next({ ...request, url: url + suffix });
+        this.markHealthy(url);
+        return result;
+      } catch (err) {
+        if (!(err instanceof ClientResponseError) || err.kind !== 'network') {
+          throw err;
+        }
+        this.markUnhealthy(url, err);
+
+        // the request could have reached the server - don't resend it
+        if (!failover) {
+          throw err;
+        }
+        lastError = err;
+      }
+    }
+
+    throw lastError;
+  };
+
+  /**
+   * Returns the endpoints to try for a request (in order).
+   */
+  private candidates(method: string): string[] {
+    this.probeUnhealthy();
+
+    const [primary, ...replicas] = this.endpoints;
+
+    let ordered = this.endpoints;
+    if (this.policy === 'read-replica') {
+      ordered = READ_METHODS.includes(method) ? [...replicas, primary] : [primary];
+    }
+
+    const healthy = ordered.filter((e) => e.healthy);
+
+    // all down - try them anyway
+    return (healthy.length ? healthy : ordered).map((e) => e.url);
+  }
+
+  /**
+   * Probes the unhealthy endpoints in the background.
+   */
+  private probeUnhealthy(): void {
+    const now = Date.now();
+
+    for (const endpoint of this.endpoints) {
+      if (endpoint.healthy || now - endpoint.lastProbe < this.recoveryInterval) {
+        continue;
+      }
+
+      endpoint.lastProbe = now;
+      this.client.health
+        .check({ baseURL: endpoint.url, requestKey: null, retry: false })
+        .then(() => this.markHealthy(endpoint.url))
+        .catch(() => {
+          // still unreachable
+        });
+    }
+  }
+
+  private markHealthy(url: string): void {
+    const endpoint = this.endpoints.find((e) => e.url === url);
+    if (!endpoint || endpoint.healthy) {
+      return;
+    }
+
+    const prevActive = this.active;
+    endpoint.healthy = true;
+    endpoint.lastError = undefined;
+    endpoint.downSince = undefined;
+    this.notifyChange(prevActive);
+  }
+
+  private markUnhealthy(url: string, err: ClientResponseError): void {
+    const endpoint = this.endpoints.find((e) => e.url === url);
+    if (!endpoint) {
+      return;
+    }
+
+    endpoint.lastError = err.originalError?.message || err.message;
+
+    if (endpoint.healthy) {
+      const prevActive = this.active;
+      endpoint.healthy = false;
+      endpoint.downSince = Date.now();
+      endpoint.lastProbe = Date.now();
+      this.notifyChange(prevActive);
+    }
+  }
+
+  private notifyChange(prevActive: string): void {
+    const active = this.active;
+    if (active === prevActive) {
+      return;
+    }
+
+    for (const callback of this._onChangeCallbacks) {
+      callback(active);
+    }
+  }
+}
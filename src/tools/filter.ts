@@ -25,7 +25,7 @@ export function filter(
 /**
  * Formats a value for use in a filter expression.
  */
-function formatValue(value: unknown): string {
+export function formatValue(value: unknown): string {
   if (value === null) {
     return 'null';
   }
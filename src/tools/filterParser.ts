@@ -0,0 +1,728 @@
+import type { CollectionModel, SchemaField } from '../types';
+import { formatValue } from './filter';
+import type { FilterOperator } from './query';
+
+/**
+ * Field or macro operand (e.g. `title`, `author.name`, `tags:length` or `@request.auth.id`).
+ */
+export interface FilterIdentifierNode {
+  type: 'identifier';
+
+  /**
+   * The identifier without the modifier (e.g. `tags` for `tags:length`).
+   */
+  name: string;
+  modifier: string | null;
+  start: number;
+  end: number;
+}
+
+/**
+ * String, number, boolean or `null` literal operand.
+ */
+export interface FilterLiteralNode {
+  type: 'literal';
+  value: string | number | boolean | null;
+  start: number;
+  end: number;
+}
+
+export type FilterOperandNode = FilterIdentifierNode | FilterLiteralNode;
+
+/**
+ * Single comparison (e.g. `status = 'active'`).
+ */
+export interface FilterComparisonNode {
+  type: 'comparison';
+  op: FilterOperator;
+  left: FilterOperandNode;
+  right: FilterOperandNode;
+  start: number;
+  end: number;
+}
+
+/**
+ * Conditions joined with `&&` or `||`
+ * (the nested conditions of the same operator are flattened).
+ */
+export interface FilterLogicalNode {
+  type: 'logical';
+  op: '&&' | '||';
+  items: FilterNode[];
+  start: number;
+  end: number;
+}
+
+export type FilterNode = FilterComparisonNode | FilterLogicalNode;
+
+/**
+ * FilterSyntaxError is thrown by `parseFilter()` for invalid expressions.
+ */
+export class FilterSyntaxError extends Error {
+  /**
+   * The error offset in the expression (starting from 0).
+   */
+  position: number;
+
+  /**
+   * The error line (starting from 1).
+   */
+  line: number;
+
+  /**
+   * The error column (starting from 1).
+   */
+  column: number;
+
+  constructor(message: string, expr: string, position: number) {
+    const lines = expr.slice(0, position).split('\n');
+    const line = lines.length;
+    const column = lines[lines.length - 1].length + 1;
+
+    super(`${message} at ${line}:${column}.`);
+
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.name = 'FilterSyntaxError';
+    this.position = position;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Single problem reported by `validateFilter()`.
+ */
+export interface FilterIssue {
+  message: string;
+
+  /**
+   * The problem offsets in the expression (`end` is exclusive).
+   */
+  start: number;
+  end: number;
+}
+
+/**
+ * Options for `validateFilter()`.
+ */
+export interface FilterValidateOptions {
+  /**
+   * All collections (used to validate the relation field paths, e.g. `author.name`).
+   */
+  collections?: CollectionModel[];
+
+  /**
+   * Whether the expression is a collection API rule
+   * (the `:isset` and `:changed` modifiers are allowed only in rules).
+   */
+  rule?: boolean;
+}
+
+/**
+ * Options for `stringifyFilter()`.
+ */
+export interface FilterStringifyOptions {
+  /**
+   * Whether to print each condition on a separate line (with indented groups).
+   */
+  pretty?: boolean;
+}
+
+type Token =
+  | { type: 'literal'; value: string | number | boolean | null; start: number; end: number }
+  | { type: 'identifier'; value: string; start: number; end: number }
+  | { type: 'op'; value: string; start: number; end: number }
+  | { type: 'paren'; value: '(' | ')'; start: number; end: number };
+
+type ValueType = 'text' | 'number' | 'bool' | 'date';
+
+type FieldInfo = Pick<SchemaField, 'name' | 'type' | 'options'>;
+
+const OPERATORS = [
+  '?!=',
+  '?!~',
+  '?>=',
+  '?<=',
+  '?=',
+  '?>',
+  '?<',
+  '?~',
+  '!=',
+  '!~',
+  '>=',
+  '<=',
+  '&&',
+  '||',
+  '=',
+  '>',
+  '<',
+  '~',
+];
+
+const MODIFIERS = ['isset', 'changed', 'length', 'each', 'lower'];
+
+const DATETIME_MACROS = [
+  '@now',
+  '@second',
+  '@minute',
+  '@hour',
+  '@weekday',
+  '@day',
+  '@month',
+  '@year',
+  '@todayStart',
+  '@todayEnd',
+  '@monthStart',
+  '@monthEnd',
+  '@yearStart',
+  '@yearEnd',
+];
+
+const RULES = ['listRule', 'viewRule', 'createRule', 'updateRule', 'deleteRule'] as const;
+
+/**
+ * Parses a PocketBase filter (or API rule) expression.
+ *
+ * Returns `null` for empty expressions and throws a `FilterSyntaxError`
+ * (with the error position) for invalid ones.
+ */
+export function parseFilter(expr: string): FilterNode | null {
+  const tokens = tokenize(expr);
+  if (!tokens.length) {
+    return null;
+  }
+
+  let pos = 0;
+
+  const fail = (message: string, token: Token | undefined = tokens[pos]): never => {
+    throw new FilterSyntaxError(message, expr, token ? token.start : expr.length);
+  };
+
+  const parseLogical = (op: '&&' | '||'): FilterNode => {
+    const parseItem = op === '||' ? () => parseLogical('&&') : parseTerm;
+
+    const items: FilterNode[] = [];
+    const push = (node: FilterNode) => {
+      if (node.type === 'logical' && node.op === op) {
+        items.push(...node.items);
+      } else {
+        items.push(node);
+      }
+    };
+
+    push(parseItem());
+    while (tokens[pos]?.type === 'op' && tokens[pos].value === op) {
+      pos++;
+      push(parseItem());
+    }
+
+    if (items.length === 1) {
+      return items[0];
+    }
+
+    return { type: 'logical', op, items, start: items[0].start, end: items[items.length - 1].end };
+  };
+
+  const parseTerm = (): FilterNode => {
+    const token = tokens[pos];
+    if (token?.type === 'paren' && token.value === '(') {
+      pos++;
+      const inner = parseLogical('||');
+      if (tokens[pos]?.type !== 'paren' || tokens[pos].value !== ')') {
+        fail('Missing closing parenthesis');
+      }
+      pos++;
+      return inner;
+    }
+
+    const left = parseOperand();
+
+    const op = tokens[pos];
+    if (op?.type !== 'op' || op.value === '&&' || op.value === '||') {
+      return fail('Expected comparison operator');
+    }
+    pos++;
+
+    const right = parseOperand();
+
+    return {
+      type: 'comparison',
+      op: op.value as FilterOperator,
+      left,
+      right,
+      start: left.start,
+      end: right.end,
+    };
+  };
+
+  const parseOperand = (): FilterOperandNode => {
+    const token = tokens[pos];
+
+    if (token?.type === 'literal') {
+      pos++;
+      return { type: 'literal', value: token.value, start: token.start, end: token.end };
+    }
+
+    if (token?.type === 'identifier') {
+      pos++;
+
+      // `@collection.name:alias` is not a modifier
+      const match = /^(.+):(\w+)$/.exec(token.value);
+      if (match && (MODIFIERS.includes(match[2]) || !token.value.startsWith('@collection.'))) {
+        return {
+          type: 'identifier',
+          name: match[1],
+          modifier: match[2],
+          start: token.start,
+          end: token.end,
+        };
+      }
+
+      return {
+        type: 'identifier',
+        name: token.value,
+        modifier: null,
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    return fail(token ? `Unexpected "${expr.slice(token.start, token.end)}"` : 'Expected value');
+  };
+
+  const node = parseLogical('||');
+  if (pos < tokens.length) {
+    fail(`Unexpected "${expr.slice(tokens[pos].start, tokens[pos].end)}"`);
+  }
+
+  return node;
+}
+
+/**
+ * Prints the filter expression tree back to a normalized string
+ * (single quoted strings, single spaces and only the required parenthesis).
+ */
+export function stringifyFilter(
+  node: FilterNode | null,
+  options: FilterStringifyOptions = {}
+): string {
+  if (!node) {
+    return '';
+  }
+
+  return print(node, options.pretty ? 0 : -1);
+}
+
+/**
+ * Parses and normalizes the filter expression (see `stringifyFilter()`).
+ */
+export function formatFilter(expr: string, options: FilterStringifyOptions = {}): string {
+  return stringifyFilter(parseFilter(expr), options);
+}
+
+/**
+ * Validates the filter expression against the collection schema.
+ *
+ * Reports the syntax errors, unknown fields, macros and modifiers, and the
+ * comparisons of fields with literals of a different type
+ * (e.g. `views = 'abc'` for a number field). Returns an empty array if the
+ * expression is valid.
+ */
+export function validateFilter(
+  expr: string | FilterNode | null,
+  collection: CollectionModel,
+  options: FilterValidateOptions = {}
+): FilterIssue[] {
+  let node: FilterNode | null;
+
+  if (typeof expr === 'string') {
+    try {
+      node = parseFilter(expr);
+    } catch (err) {
+      if (err instanceof FilterSyntaxError) {
+        return [{ message: err.message, start: err.position, end: err.position + 1 }];
+      }
+      throw err;
+    }
+  } else {
+    node = expr;
+  }
+
+  const issues: FilterIssue[] = [];
+  if (node) {
+    validateNode(node, collection, options, issues);
+  }
+
+  return issues;
+}
+
+/**
+ * Validates the API rules of the collection (see `validateFilter()`).
+ *
+ * Returns the issues of the rules that have any.
+ */
+export function lintCollectionRules(
+  collection: CollectionModel,
+  options: Omit<FilterValidateOptions, 'rule'> = {}
+): Partial<Record<(typeof RULES)[number], FilterIssue[]>> {
+  const result: Partial<Record<(typeof RULES)[number], FilterIssue[]>> = {};
+
+  for (const rule of RULES) {
+    const expr = collection[rule];
+    if (!expr) {
+      continue;
+    }
+
+    const issues = validateFilter(expr, collection, { ...options, rule: true });
+    if (issues.length) {
+      result[rule] = issues;
+    }
+  }
+
+  return result;
+}
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expr.length) {
+    const char = expr[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // single line comments
+    if (expr.startsWith('//', i)) {
+      while (i < expr.length && expr[i] !== '\n') {
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, start, end: ++i });
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = '';
+      i++;
+      while (i < expr.length && expr[i] !== char) {
+        // only the quote char is escaped (other backslashes are kept as is)
+        if (expr[i] === '\\' && expr[i + 1] === char) {
+          i++;
+        }
+        value += expr[i++];
+      }
+      if (i >= expr.length) {
+        throw new FilterSyntaxError('Unterminated string', expr, start);
+      }
+      tokens.push({ type: 'literal', value, start, end: ++i });
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?(?![\w.])/.exec(expr.slice(i))?.[0];
+    if (number) {
+      i += number.length;
+      tokens.push({ type: 'literal', value: Number(number), start, end: i });
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => expr.startsWith(o, i));
+    if (op) {
+      i += op.length;
+      tokens.push({ type: 'op', value: op, start, end: i });
+      continue;
+    }
+
+    const word = /^@?[a-zA-Z_][\w.:]*/.exec(expr.slice(i))?.[0];
+    if (!word) {
+      throw new FilterSyntaxError(`Unexpected character "${char}"`, expr, start);
+    }
+    i += word.length;
+
+    if (word === 'true' || word === 'false') {
+      tokens.push({ type: 'literal', value: word === 'true', start, end: i });
+    } else if (word === 'null') {
+      tokens.push({ type: 'literal', value: null, start, end: i });
+    } else {
+      tokens.push({ type: 'identifier', value: word, start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+function print(node: FilterNode, indent: number): string {
+  if (node.type === 'comparison') {
+    return `${printOperand(node.left)} ${node.op} ${printOperand(node.right)}`;
+  }
+
+  const items = node.items.map((item) => {
+    if (item.type === 'comparison') {
+      return print(item, indent);
+    }
+
+    if (indent < 0) {
+      // && has higher precedence than ||
+      return node.op === '&&' ? `(${print(item, indent)})` : print(item, indent);
+    }
+
+    const pad = '  '.repeat(indent);
+    return `(\n${pad}  ${print(item, indent + 1)}\n${pad})`;
+  });
+
+  if (indent < 0) {
+    return items.join(` ${node.op} `);
+  }
+
+  return items.join(`\n${'  '.repeat(indent)}${node.op} `);
+}
+
+function printOperand(operand: FilterOperandNode): string {
+  if (operand.type === 'identifier') {
+    return operand.modifier ? `${operand.name}:${operand.modifier}` : operand.name;
+  }
+
+  return formatValue(operand.value);
+}
+
+function validateNode(
+  node: FilterNode,
+  collection: CollectionModel,
+  options: FilterValidateOptions,
+  issues: FilterIssue[]
+): void {
+  if (node.type === 'logical') {
+    for (const item of node.items) {
+      validateNode(item, collection, options, issues);
+    }
+    return;
+  }
+
+  const leftType = operandType(node.left, collection, options, issues);
+  const rightType = operandType(node.right, collection, options, issues);
+
+  checkTypes(node.left, leftType, node.right, issues);
+  checkTypes(node.right, rightType, node.left, issues);
+}
+
+/**
+ * Resolves the operand value type (`null` if any type is allowed)
+ * and reports the unknown identifiers.
+ */
+function operandType(
+  operand: FilterOperandNode,
+  collection: CollectionModel,
+  options: FilterValidateOptions,
+  issues: FilterIssue[]
+): ValueType | null {
+  if (operand.type === 'literal') {
+    return null;
+  }
+
+  const report = (message: string): null => {
+    issues.push({ message, start: operand.start, end: operand.end });
+    return null;
+  };
+
+  const { name, modifier } = operand;
+
+  if (modifier === 'isset' || modifier === 'changed') {
+    if (!options.rule || !name.startsWith('@request.')) {
+      return report(`The :${modifier} modifier is allowed only for @request fields in API rules.`);
+    }
+    return 'bool';
+  }
+
+  if (modifier && !MODIFIERS.includes(modifier)) {
+    return report(`Unknown modifier ":${modifier}".`);
+  }
+
+  if (name.startsWith('@')) {
+    if (DATETIME_MACROS.includes(name)) {
+      return modifier ? report(`Macro "${name}" doesn't support modifiers.`) : 'date';
+    }
+    if (name.startsWith('@request.') || name.startsWith('@collection.')) {
+      return modifier === 'length' ? 'number' : null;
+    }
+    return report(`Unknown macro "${name}".`);
+  }
+
+  const field = resolveField(name, collection, options);
+  if (typeof field === 'string') {
+    return report(field);
+  }
+  if (!field) {
+    // json paths, back relations and unknown related collections
+    return modifier === 'length' ? 'number' : null;
+  }
+
+  const type = fieldValueType(field);
+
+  switch (modifier) {
+    case 'length':
+      if (!isMultiple(field)) {
+        return report(`The :length modifier requires a multiple value field ("${name}").`);
+      }
+      return 'number';
+    case 'each':
+      if (!isMultiple(field)) {
+        return report(`The :each modifier requires a multiple value field ("${name}").`);
+      }
+      return type;
+    case 'lower':
+      if (type !== 'text') {
+        return report(`The :lower modifier requires a text field ("${name}").`);
+      }
+      return 'text';
+  }
+
+  return type;
+}
+
+/**
+ * Resolves the field of the identifier path.
+ *
+ * Returns an error message for unknown fields and `null`
+ * for the paths that can't be resolved with the provided collections.
+ */
+function resolveField(
+  path: string,
+  collection: CollectionModel,
+  options: FilterValidateOptions
+): FieldInfo | string | null {
+  const [name, ...rest] = path.split('.');
+
+  // back relation (e.g. `comments_via_post.message`)
+  if (name.includes('_via_')) {
+    return null;
+  }
+
+  const field = collectionFields(collection).find((f) => f.name === name);
+  if (!field) {
+    return `Unknown field "${name}" in collection "${collection.name}".`;
+  }
+
+  if (!rest.length) {
+    return field;
+  }
+
+  if (field.type === 'json') {
+    return null;
+  }
+
+  if (field.type !== 'relation') {
+    return `Field "${name}" has no nested fields.`;
+  }
+
+  const related = options.collections?.find(
+    (c) => c.id === field.options?.collectionId || c.name === field.options?.collectionId
+  );
+  if (!related) {
+    return null;
+  }
+
+  return resolveField(rest.join('.'), related, options);
+}
+
+function collectionFields(collection: CollectionModel): FieldInfo[] {
+  const fields: FieldInfo[] = [
+    { name: 'id', type: 'text', options: {} },
+  ];
+
+  if (collection.type !== 'view') {
+    fields.push(
+      { name: 'created', type: 'date', options: {} },
+      { name: 'updated', type: 'date', options: {} }
+    );
+  }
+
+  if (collection.type === 'auth') {
+    fields.push(
+      { name: 'username', type: 'text', options: {} },
+      { name: 'email', type: 'email', options: {} },
+      { name: 'emailVisibility', type: 'bool', options: {} },
+      { name: 'verified', type: 'bool', options: {} }
+    );
+  }
+
+  return fields.concat(collection.schema || []);
+}
+
+function fieldValueType(field: FieldInfo): ValueType | null {
+  switch (field.type) {
+    case 'number':
+      return 'number';
+    case 'bool':
+      return 'bool';
+    case 'date':
+    case 'autodate':
+      return 'date';
+    case 'json':
+      return null;
+  }
+
+  return 'text';
+}
+
+function isMultiple(field: FieldInfo): boolean {
+  const maxSelect = field.options?.maxSelect;
+
+  return (
+    ['select', 'relation', 'file'].includes(field.type) &&
+    typeof maxSelect === 'number' &&
+    maxSelect > 1
+  );
+}
+
+/**
+ * Reports the literal that doesn't match the compared field type.
+ */
+function checkTypes(
+  operand: FilterOperandNode,
+  type: ValueType | null,
+  other: FilterOperandNode,
+  issues: FilterIssue[]
+): void {
+  if (!type || other.type !== 'literal') {
+    return;
+  }
+
+  const value = other.value;
+
+  // null and empty string are allowed for all fields (the "empty value" checks)
+  if (value === null || value === '') {
+    return;
+  }
+
+  let valid = true;
+  switch (type) {
+    case 'number':
+      valid = typeof value === 'number' || (typeof value === 'string' && !isNaN(Number(value)));
+      break;
+    case 'bool':
+      valid = typeof value === 'boolean';
+      break;
+    case 'date':
+      valid = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value);
+      break;
+    case 'text':
+      valid = typeof value !== 'boolean';
+      break;
+  }
+
+  if (!valid) {
+    const name = operand.type === 'identifier' ? operand.name : '';
+    issues.push({
+      message: `Type mismatch: ${type} "${name}" compared with ${formatValue(value)}.`,
+      start: other.start,
+      end: other.end,
+    });
+  }
+}
@@ -1,3 +1,5 @@
 export * from './options';
 export { filter } from './filter';
-
+export * from './query';
+export * from './filterParser';
+export * from './middleware';
@@ -0,0 +1,219 @@
+import type { CircuitState } from './breaker';
+
+/**
+ * Common fields of the request lifecycle events.
+ */
+export interface RequestEventBase {
+  /**
+   * The request method (uppercased).
+   */
+  method: string;
+
+  /**
+   * The API path as passed to `send()`.
+   */
+  path: string;
+
+  /**
+   * The full request url (including the query string).
+   */
+  url: string;
+
+  /**
+   * The request cancellation key (`null` if the request can't be auto cancelled).
+   */
+  requestKey: string | null;
+
+  /**
+   * The request correlation id (`null` if `requestIdHeader` is not set).
+   */
+  requestId: string | null;
+
+  /**
+   * The event time (unix ms).
+   */
+  timestamp: number;
+}
+
+/**
+ * Emitted before the request enters the middleware chain.
+ */
+export interface RequestStartEvent extends RequestEventBase {
+  type: 'request:start';
+}
+
+/**
+ * Emitted when the request completes with a 2xx response.
+ */
+export interface RequestResponseEvent extends RequestEventBase {
+  type: 'request:response';
+  status: number;
+
+  /**
+   * The endpoint (base url) that served the request
+   * (`null` if the request url doesn't belong to any of the client endpoints).
+   */
+  endpoint: string | null;
+
+  /**
+   * The total request duration in ms (including the retries).
+   */
+  duration: number;
+}
+
+/**
+ * Emitted when the request fails with a non 2xx response or a network error.
+ */
+export interface RequestErrorEvent extends RequestEventBase {
+  type: 'request:error';
+  status: number;
+  kind: string;
+
+  /**
+   * The endpoint (base url) of the failed request (`null` if unknown).
+   */
+  endpoint: string | null;
+  duration: number;
+  error: unknown;
+}
+
+/**
+ * Emitted when the request is aborted (cancelled, timed out or by a signal).
+ */
+export interface RequestAbortEvent extends RequestEventBase {
+  type: 'request:abort';
+  isTimeout: boolean;
+  duration: number;
+}
+
+/**
+ * Emitted before a failed attempt is retried.
+ */
+export interface RequestRetryEvent extends RequestEventBase {
+  type: 'request:retry';
+
+  /**
+   * The failed attempt number (starting from 1).
+   */
+  attempt: number;
+
+  /**
+   * The failed attempt response status (`0` for network errors).
+   */
+  status: number;
+
+  /**
+   * The delay (in ms) before the next attempt.
+   */
+  delay: number;
+}
+
+/**
+ * Emitted when the realtime connection is established.
+ */
+export interface RealtimeConnectEvent {
+  type: 'realtime:connect';
+  clientId: string;
+
+  /**
+   * The time (in ms) it took to establish the connection.
+   */
+  duration: number;
+  timestamp: number;
+}
+
+/**
+ * Emitted when the realtime connection is closed or lost.
+ */
+export interface RealtimeDisconnectEvent {
+  type: 'realtime:disconnect';
+
+  /**
+   * Whether the connection will be reestablished automatically.
+   */
+  reconnecting: boolean;
+  timestamp: number;
+}
+
+/**
+ * Emitted for every received realtime message.
+ */
+export interface RealtimeMessageEvent {
+  type: 'realtime:message';
+  topic: string;
+
+  /**
+   * The raw message data length.
+   */
+  size: number;
+  timestamp: number;
+}
+
+/**
+ * Emitted when the circuit breaker state changes.
+ */
+export interface BreakerStateEvent {
+  type: 'breaker:state';
+  state: CircuitState;
+  prevState: CircuitState;
+  timestamp: number;
+}
+
+export type InstrumentationEvent =
+  | RequestStartEvent
+  | RequestResponseEvent
+  | RequestErrorEvent
+  | RequestAbortEvent
+  | RequestRetryEvent
+  | RealtimeConnectEvent
+  | RealtimeDisconnectEvent
+  | RealtimeMessageEvent
+  | BreakerStateEvent;
+
+export type InstrumentationFunc = (event: InstrumentationEvent) => void;
+
+/**
+ * Instrumentation dispatches the client lifecycle events
+ * (requests, realtime connection and circuit breaker) to the registered listeners.
+ */
+export class Instrumentation {
+  private _onEventCallbacks: InstrumentationFunc[] = [];
+
+  /**
+   * Returns whether there are any registered listeners.
+   */
+  get enabled(): boolean {
+    return this._onEventCallbacks.length > 0;
+  }
+
+  /**
+   * Registers a listener for all lifecycle events.
+   *
+   * Returns a removal function that you can call to unsubscribe.
+   */
+  on(callback: InstrumentationFunc): () => void {
+    this._onEventCallbacks.push(callback);
+
+    return () => {
+      const index = this._onEventCallbacks.indexOf(callback);
+      if (index !== -1) {
+        this._onEventCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Dispatches the event to the registered listeners.
+   *
+   * Listener errors are ignored so that they can't affect the requests.
+   */
+  emit(event: InstrumentationEvent): void {
+    for (const callback of this._onEventCallbacks) {
+      try {
+        callback(event);
+      } catch {
+        // ignore listener errors
+      }
+    }
+  }
+}
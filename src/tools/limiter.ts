@@ -0,0 +1,179 @@
+/**
+ * Request priority (higher numbers are dequeued first).
+ *
+ * The named levels map to `high = 1`, `normal = 0` and `low = -1`.
+ */
+export type RequestPriority = 'high' | 'normal' | 'low' | number;
+
+/**
+ * Request limiter statistics.
+ */
+export interface LimiterStats {
+  /**
+   * Max number of concurrent requests (`Infinity` if unlimited).
+   */
+  maxConcurrent: number;
+
+  /**
+   * Number of requests currently in-flight.
+   */
+  active: number;
+
+  /**
+   * Number of requests currently waiting for a free slot.
+   */
+  queued: number;
+
+  /**
+   * Number of requests that had to wait for a free slot.
+   */
+  totalQueued: number;
+
+  /**
+   * Average wait time (in ms) of the requests that had to wait.
+   */
+  avgWaitTime: number;
+
+  /**
+   * Max wait time (in ms) of the requests that had to wait.
+   */
+  maxWaitTime: number;
+}
+
+interface Waiter {
+  priority: number;
+  enqueued: number;
+  resolve: (release: () => void) => void;
+}
+
+const namedPriorities: Record<string, number> = {
+  high: 1,
+  normal: 0,
+  low: -1,
+};
+
+/**
+ * RequestLimiter caps the number of concurrent requests and queues
+ * the rest, dequeuing them by priority (FIFO for equal priorities).
+ */
+export class RequestLimiter {
+  /**
+   * Max number of concurrent requests (`Infinity` or `0` for unlimited).
+   */
+  maxConcurrent: number;
+
+  private active = 0;
+  private waiters: Waiter[] = [];
+  private totalQueued = 0;
+  private totalWaitTime = 0;
+  private maxWaitTime = 0;
+
+  constructor(maxConcurrent = Infinity) {
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  /**
+   * Waits for a free request slot.
+   *
+   * Resolves with a release function that must be called once the request
+   * has completed. Rejects if the signal is aborted while waiting.
+   */
+  acquire(
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal | null
+  ): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    if (this.hasFreeSlot() && !this.waiters.length) {
+      this.active++;
+      return Promise.resolve(this.createRelease());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        priority: typeof priority === 'number' ? priority : namedPriorities[priority] ?? 0,
+        enqueued: Date.now(),
+        resolve: (release) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        },
+      };
+
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+        reject(signal?.reason);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // insert after the last waiter with the same or higher priority
+      let index = this.waiters.length;
+      while (index > 0 && this.waiters[index - 1].priority < waiter.priority) {
+        index--;
+      }
+      this.waiters.splice(index, 0, waiter);
+      this.totalQueued++;
+    });
+  }
+
+  /**
+   * Returns the current queue depth and wait time statistics.
+   */
+  stats(): LimiterStats {
+    const maxConcurrent = this.maxConcurrent > 0 ? this.maxConcurrent : Infinity;
+    const dequeued = this.totalQueued - this.waiters.length;
+
+    return {
+      maxConcurrent,
+      active: this.active,
+      queued: this.waiters.length,
+      totalQueued: this.totalQueued,
+      avgWaitTime: dequeued > 0 ? this.totalWaitTime / dequeued : 0,
+      maxWaitTime: this.maxWaitTime,
+    };
+  }
+
+  /**
+   * Resets the accumulated wait time statistics.
+   */
+  resetStats(): void {
+    this.totalQueued = this.waiters.length;
+    this.totalWaitTime = 0;
+    this.maxWaitTime = 0;
+  }
+
+  private hasFreeSlot(): boolean {
+    return !(this.maxConcurrent > 0) || this.active < this.maxConcurrent;
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+      this.next();
+    };
+  }
+
+  private next(): void {
+    while (this.waiters.length && this.hasFreeSlot()) {
+      const waiter = this.waiters.shift() as Waiter;
+      const waitTime = Date.now() - waiter.enqueued;
+
+      this.totalWaitTime += waitTime;
+      this.maxWaitTime = Math.max(this.maxWaitTime, waitTime);
+
+      this.active++;
+      waiter.resolve(this.createRelease());
+    }
+  }
+}
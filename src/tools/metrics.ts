@@ -0,0 +1,340 @@
+import type {
+  InstrumentationEvent,
+  InstrumentationFunc,
+  RequestEventBase,
+} from './instrumentation';
+
+/**
+ * Client metrics options.
+ */
+export interface ClientMetricsOptions {
+  /**
+   * Upper bounds (in ms) of the latency histogram buckets.
+   * @default [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+   */
+  buckets?: number[];
+
+  /**
+   * Maps the request to its route label (by default the path with the
+   * record ids, filenames and backup keys replaced with placeholders).
+   */
+  route?: (event: RequestEventBase) => string;
+}
+
+/**
+ * Latency histogram with cumulative bucket counts
+ * (the last bucket is `le: Infinity`).
+ */
+export interface HistogramSnapshot {
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+}
+
+/**
+ * Aggregated metrics of a single method + route pair.
+ */
+export interface RouteMetrics {
+  method: string;
+  route: string;
+
+  /**
+   * The number of completed requests by response status (`0` for network errors).
+   */
+  statuses: Record<string, number>;
+  requests: number;
+  errors: number;
+  aborts: number;
+  timeouts: number;
+  retries: number;
+  inFlight: number;
+  latency: HistogramSnapshot;
+}
+
+/**
+ * Aggregated realtime connection metrics.
+ */
+export interface RealtimeMetrics {
+  connects: number;
+  disconnects: number;
+  messages: number;
+  connectLatency: HistogramSnapshot;
+}
+
+export interface MetricsSnapshot {
+  routes: RouteMetrics[];
+  realtime: RealtimeMetrics;
+}
+
+const DEFAULT_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+// dynamic path segments replaced in the default route labels
+const ROUTE_PATTERNS: Array<[RegExp, string]> = [
+  [/^(\/api\/collections\/[^/]+\/records\/)[^/]+/, '$1:id'],
+  [/^(\/api\/files\/[^/]+\/)[^/]+\/[^/]+/, '$1:id/:filename'],
+  [/^(\/api\/backups\/)(?!upload(\/|$))[^/]+/, '$1:key'],
+  [/^(\/api\/logs\/)(?!stats(\/|$))[^/]+/, '$1:id'],
+  [/^(\/api\/crons\/)[^/]+/, '$1:id'],
+];
+
+class Histogram {
+  private bounds: number[];
+  private counts: number[];
+  private sum = 0;
+
+  constructor(bounds: number[]) {
+    this.bounds = bounds;
+    this.counts = new Array(bounds.length + 1).fill(0);
+  }
+
+  observe(value: number): void {
+    let index = this.bounds.findIndex((bound) => value <= bound);
+    if (index === -1) {
+      index = this.bounds.length;
+    }
+    this.counts[index]++;
+    this.sum += value;
+  }
+
+  snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    const buckets = this.counts.map((count, i) => {
+      cumulative += count;
+      return { le: this.bounds[i] ?? Infinity, count: cumulative };
+    });
+
+    return { buckets, sum: this.sum, count: cumulative };
+  }
+}
+
+interface RouteEntry extends Omit<RouteMetrics, 'latency' | 'statuses'> {
+  statuses: Map<string, number>;
+  latency: Histogram;
+}
+
+interface RealtimeEntry extends Omit<RealtimeMetrics, 'connectLatency'> {
+  connectLatency: Histogram;
+}
+
+/**
+ * ClientMetrics aggregates the instrumentation events into per route
+ * counters and latency histograms
+ * (e.g. `pb.instrumentation.on(metrics.listener)`).
+ *
+ * The aggregated metrics can be exported with `snapshot()` (e.g. for
+ * OpenTelemetry instruments) or in the Prometheus text format.
+ */
+export class ClientMetrics {
+  private buckets: number[];
+  private route: (event: RequestEventBase) => string;
+  private routes: Map<string, RouteEntry> = new Map();
+  private realtime: RealtimeEntry;
+
+  constructor(options: ClientMetricsOptions = {}) {
+    this.buckets = [...(options.buckets || DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    this.route = options.route || defaultRoute;
+    this.realtime = this.emptyRealtime();
+  }
+
+  /**
+   * Instrumentation listener that aggregates the events.
+   */
+  listener: InstrumentationFunc = (event: InstrumentationEvent) => {
+    switch (event.type) {
+      case 'request:start':
+        this.entry(event).inFlight++;
+        break;
+      case 'request:response':
+      case 'request:error': {
+        const entry = this.entry(event);
+        const status = String(event.status);
+        entry.inFlight = Math.max(0, entry.inFlight - 1);
+        entry.requests++;
+        entry.statuses.set(status, (entry.statuses.get(status) || 0) + 1);
+        entry.latency.observe(event.duration);
+        if (event.type === 'request:error') {
+          entry.errors++;
+        }
+        break;
+      }
+      case 'request:abort': {
+        const entry = this.entry(event);
+        entry.inFlight = Math.max(0, entry.inFlight - 1);
+        entry.aborts++;
+        if (event.isTimeout) {
+          entry.timeouts++;
+        }
+        break;
+      }
+      case 'request:retry':
+        this.entry(event).retries++;
+        break;
+      case 'realtime:connect':
+        this.realtime.connects++;
+        this.realtime.connectLatency.observe(event.duration);
+        break;
+      case 'realtime:disconnect':
+        this.realtime.disconnects++;
+        break;
+      case 'realtime:message':
+        this.realtime.messages++;
+        break;
+    }
+  };
+
+  /**
+   * Returns a copy of the aggregated metrics.
+   */
+  snapshot(): MetricsSnapshot {
+    const routes: RouteMetrics[] = [];
+    for (const entry of this.routes.values()) {
+      routes.push({
+        ...entry,
+        statuses: Object.fromEntries(entry.statuses),
+        latency: entry.latency.snapshot(),
+      });
+    }
+
+    return {
+      routes,
+      realtime: {
+        connects: this.realtime.connects,
+        disconnects: this.realtime.disconnects,
+        messages: this.realtime.messages,
+        connectLatency: this.realtime.connectLatency.snapshot(),
+      },
+    };
+  }
+
+  /**
+   * Returns the aggregated metrics in the Prometheus text exposition format.
+   */
+  toPrometheus(prefix = 'pocketbase_client'): string {
+    const { routes, realtime } = this.snapshot();
+    const lines: string[] = [];
+
+    const metric = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+    };
+    const sample = (name: string, labels: Record<string, string>, value: number) => {
+      const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+      const labelsStr = pairs.length ? `{${pairs.join(',')}}` : '';
+      lines.push(`${prefix}_${name}${labelsStr} ${formatValue(value)}`);
+    };
+    const histogram = (name: string, labels: Record<string, string>, h: HistogramSnapshot) => {
+      for (const bucket of h.buckets) {
+        sample(`${name}_bucket`, { ...labels, le: formatValue(bucket.le) }, bucket.count);
+      }
+      sample(`${name}_sum`, labels, h.sum);
+      sample(`${name}_count`, labels, h.count);
+    };
+
+    metric('requests_total', 'counter', 'Completed requests by response status.');
+    for (const r of routes) {
+      for (const [status, count] of Object.entries(r.statuses)) {
+        sample('requests_total', { method: r.method, route: r.route, status }, count);
+      }
+    }
+
+    metric('request_aborts_total', 'counter', 'Aborted requests (including timeouts).');
+    for (const r of routes) {
+      sample('request_aborts_total', { method: r.method, route: r.route }, r.aborts);
+    }
+
+    metric('request_timeouts_total', 'counter', 'Timed out requests.');
+    for (const r of routes) {
+      sample('request_timeouts_total', { method: r.method, route: r.route }, r.timeouts);
+    }
+
+    metric('request_retries_total', 'counter', 'Retried request attempts.');
+    for (const r of routes) {
+      sample('request_retries_total', { method: r.method, route: r.route }, r.retries);
+    }
+
+    metric('requests_in_flight', 'gauge', 'Pending requests.');
+    for (const r of routes) {
+      sample('requests_in_flight', { method: r.method, route: r.route }, r.inFlight);
+    }
+
+    metric('request_duration_ms', 'histogram', 'Completed requests duration in ms.');
+    for (const r of routes) {
+      histogram('request_duration_ms', { method: r.method, route: r.route }, r.latency);
+    }
+
+    metric('realtime_connects_total', 'counter', 'Established realtime connections.');
+    sample('realtime_connects_total', {}, realtime.connects);
+
+    metric('realtime_disconnects_total', 'counter', 'Closed or lost realtime connections.');
+    sample('realtime_disconnects_total', {}, realtime.disconnects);
+
+    metric('realtime_messages_total', 'counter', 'Received realtime messages.');
+    sample('realtime_messages_total', {}, realtime.messages);
+
+    metric('realtime_connect_duration_ms', 'histogram', 'Realtime connection time in ms.');
+    histogram('realtime_connect_duration_ms', {}, realtime.connectLatency);
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Resets all aggregated metrics.
+   */
+  reset(): void {
+    this.routes.clear();
+    this.realtime = this.emptyRealtime();
+  }
+
+  private emptyRealtime(): RealtimeEntry {
+    return {
+      connects: 0,
+      disconnects: 0,
+      messages: 0,
+      connectLatency: new Histogram(this.buckets),
+    };
+  }
+
+  private entry(event: RequestEventBase): RouteEntry {
+    const route = this.route(event);
+    const key = `${event.method} ${route}`;
+
+    let entry = this.routes.get(key);
+    if (!entry) {
+      entry = {
+        method: event.method,
+        route,
+        statuses: new Map(),
+        requests: 0,
+        errors: 0,
+        aborts: 0,
+        timeouts: 0,
+        retries: 0,
+        inFlight: 0,
+        latency: new Histogram(this.buckets),
+      };
+      this.routes.set(key, entry);
+    }
+
+    return entry;
+  }
+}
+
+function defaultRoute(event: RequestEventBase): string {
+  let route = event.path.split('?')[0];
+  if (!route.startsWith('/')) {
+    route = '/' + route;
+  }
+
+  for (const [pattern, replacement] of ROUTE_PATTERNS) {
+    route = route.replace(pattern, replacement);
+  }
+
+  return route;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  return value === Infinity ? '+Inf' : String(value);
+}
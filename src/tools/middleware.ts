@@ -0,0 +1,87 @@
+import type { SendOptions } from './options';
+import type { Transport } from './transport';
+
+/**
+ * Request passed through the middleware chain.
+ */
+export interface SendRequest {
+  /**
+   * The full request url (including the query string).
+   */
+  url: string;
+
+  /**
+   * The API path as passed to `send()`.
+   */
+  path: string;
+
+  /**
+   * The fetch options (method, headers, body, signal, etc.).
+   */
+  init: RequestInit;
+
+  /**
+   * The original send options.
+   */
+  options: SendOptions;
+
+  /**
+   * The transport that executes the request
+   * (the `options.fetch` function takes precedence if set).
+   */
+  transport: Transport;
+}
+
+/**
+ * Response returned through the middleware chain.
+ */
+export interface SendResponse {
+  /**
+   * The raw fetch response.
+   */
+  response: Response;
+
+  /**
+   * The parsed response body.
+   */
+  data: unknown;
+
+  /**
+   * The endpoint (base url) that served the request.
+   */
+  endpoint?: string;
+}
+
+/**
+ * Invokes the rest of the middleware chain (and eventually the fetch call).
+ */
+export type NextFunc = (request: SendRequest) => Promise<SendResponse>;
+
+/**
+ * Middleware wraps the execution of a request.
+ *
+ * It can modify the request before calling `next`, short-circuit it by
+ * returning its own response, call `next` multiple times (e.g. to retry)
+ * or transform the returned response and thrown errors.
+ *
+ * Non 2xx responses are returned (not thrown) by `next` and converted into
+ * a `ClientResponseError` only after the whole chain has completed.
+ */
+export type Middleware = (
+  request: SendRequest,
+  next: NextFunc
+) => Promise<SendResponse>;
+
+/**
+ * Composes the middlewares (in registration order, outermost first)
+ * around the final request handler.
+ */
+export function composeMiddlewares(
+  middlewares: Middleware[],
+  handler: NextFunc
+): NextFunc {
+  return middlewares.reduceRight<NextFunc>(
+    (next, middleware) => (request) => middleware(request, next),
+    handler
+  );
+}
@@ -1,3 +1,14 @@
+import type { RequestPriority } from './limiter';
+import type { UploadProgressFunc } from './upload';
+import type { RoutingPolicy } from './endpoints';
+import type { BaseAuthStore } from '../stores/BaseAuthStore';
+import type { Transport } from './transport';
+
+/**
+ * How the response body of a successful request is read.
+ */
+export type SendResponseType = 'auto' | 'text' | 'blob' | 'arrayBuffer' | 'stream' | 'response';
+
 /**
  * Common send options for API requests.
  */
@@ -29,12 +40,233 @@ export interface SendOptions {
    */
   fetch?: (url: RequestInfo | URL, config?: RequestInit) => Promise<Response>;
 
+  /**
+   * Retry policy for the request (merged on top of the client one).
+   * Set to `false` to disable retries for this request.
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Request timeout in ms (overrides the client one).
+   * Set to `0` to disable the timeout for this request.
+   *
+   * For the `'stream'` and `'response'` response types it applies only
+   * until the response headers arrive.
+   */
+  timeout?: number;
+
+  /**
+   * Caller abort signal.
+   * It is composed with the internal auto cancellation and timeout signals.
+   */
+  signal?: AbortSignal | null;
+
+  /**
+   * Response cache options for GET requests (`true` to use the defaults).
+   * A `RequestCache` string is passed as it is to `fetch`.
+   */
+  cache?: CacheOptions | boolean | RequestCache;
+
+  /**
+   * Priority of the request when the client concurrency limit is reached.
+   * @default 'normal'
+   */
+  priority?: RequestPriority;
+
+  /**
+   * Upload progress callback (e.g. for multipart records and backups uploads).
+   * When set, the request is sent with a transport that can report progress
+   * (XMLHttpRequest in browsers, a bytes counting stream body in Node).
+   */
+  onUploadProgress?: UploadProgressFunc;
+
+  /**
+   * Sends the request to the specified base url instead of
+   * the endpoint selected by the client routing policy.
+   */
+  baseURL?: string;
+
+  /**
+   * How the successful response body is read.
+   *
+   * With `'auto'` (default) JSON responses are parsed and all other
+   * responses are read as text. `'stream'` resolves with the unconsumed
+   * body stream and `'response'` with the raw fetch Response.
+   */
+  responseType?: SendResponseType;
+
   /**
    * Any additional fetch options to pass to the request.
    */
   [key: string]: unknown;
 }
 
+/**
+ * The `SendOptions` keys handled by the client itself (all other keys are
+ * passed to `fetch` by `send()` and used as query parameters by the services).
+ */
+export const knownSendOptions: readonly string[] = [
+  'method',
+  'headers',
+  'body',
+  'query',
+  'requestKey',
+  'fetch',
+  'retry',
+  'timeout',
+  'signal',
+  'cache',
+  'priority',
+  'onUploadProgress',
+  'baseURL',
+  'responseType',
+];
+
+/**
+ * Retry policy for failed requests.
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts (including the initial one).
+   * @default 1
+   */
+  maxAttempts?: number;
+
+  /**
+   * Base delay (in ms) of the exponential backoff.
+   * @default 300
+   */
+  baseDelay?: number;
+
+  /**
+   * Maximum delay (in ms) between two attempts.
+   * A `Retry-After` value larger than this stops the retries.
+   * @default 10000
+   */
+  maxDelay?: number;
+
+  /**
+   * Whether to randomize the backoff delay ("full jitter").
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP methods that are allowed to be retried.
+   * @default ['GET', 'HEAD']
+   */
+  methods?: string[];
+
+  /**
+   * Response statuses that are considered retryable.
+   * Network failures are always retryable.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  statuses?: number[];
+}
+
+/**
+ * Response cache options.
+ */
+export interface CacheOptions {
+  /**
+   * Time to live of the cached response in ms.
+   * @default 60000
+   */
+  ttl?: number;
+
+  /**
+   * Custom tags that can be used to invalidate the cached response.
+   */
+  tags?: string[];
+}
+
+/**
+ * Handling of duplicated pending requests.
+ *
+ * - `true` - cancel the previous pending request with the same method and path
+ * - `false` - don't cancel nor share duplicated requests
+ * - `'dedupe'` - identical in-flight GET requests share a single fetch call
+ */
+export type AutoCancellationMode = boolean | 'dedupe';
+
+/**
+ * Client-wide options.
+ */
+export interface ClientOptions {
+  /**
+   * Handling of duplicated pending requests.
+   * @default true
+   */
+  autoCancellation?: AutoCancellationMode;
+
+  /**
+   * Default retry policy applied to every request.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Default request timeout in ms (`0` means no timeout).
+   */
+  timeout?: number;
+
+  /**
+   * Max number of concurrent in-flight requests (unlimited by default).
+   * The rest are queued and dequeued by their `priority`.
+   */
+  maxConcurrentRequests?: number;
+
+  /**
+   * Routing policy when multiple base urls are specified.
+   * @default 'failover'
+   */
+  routing?: RoutingPolicy;
+
+  /**
+   * Min interval (in ms) between the health check probes of an unreachable endpoint.
+   * @default 10000
+   */
+  recoveryInterval?: number;
+
+  /**
+   * Methods of the requests that are resent to the next endpoint on network errors.
+   * @default ['GET', 'HEAD', 'OPTIONS']
+   */
+  failoverMethods?: string[];
+
+  /**
+   * Transport of the HTTP requests and the realtime stream
+   * (defaults to the global `fetch` and `EventSource`).
+   */
+  transport?: Transport;
+
+  /**
+   * Name of the header with a generated correlation id sent with every
+   * request (e.g. `'X-Request-Id'`). Disabled by default.
+   */
+  requestIdHeader?: string;
+}
+
+/**
+ * Options for the scoped client clones.
+ */
+export interface ClientCloneOptions {
+  /**
+   * Auth store of the clone (an empty in-memory store by default).
+   */
+  authStore?: BaseAuthStore;
+
+  /**
+   * Headers sent with every request of the clone.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Base URL of the clone (defaults to the endpoints of the source client).
+   */
+  baseURL?: string;
+}
+
 /**
  * Options for list requests.
  */
@@ -83,6 +315,64 @@ export interface FullListOptions extends ListOptions {
    * Number of items to fetch per batch request.
    */
   batch?: number;
+
+  /**
+   * Maximum number of pages to fetch concurrently after the first one
+   * (it requires the total pages, so it has no effect with `skipTotal`).
+   *
+   * The page requests are retried on failure (3 attempts unless `retry` is set)
+   * and the items are returned in the pages order.
+   * @default 1
+   */
+  concurrency?: number;
+}
+
+/**
+ * Options for cursor (keyset) paginated list requests.
+ *
+ * The `sort` keys (`created,id` by default) must be returned with the items
+ * (`id` is appended to the keys if missing).
+ */
+export interface CursorListOptions extends ListOptions {
+  /**
+   * The cursor of the previous page to continue from (`result.cursor`).
+   */
+  cursor?: string | null;
+}
+
+/**
+ * Progress of a paginated iteration.
+ */
+export interface IterateProgress {
+  /**
+   * The last fetched page.
+   */
+  page: number;
+
+  /**
+   * The number of items fetched so far.
+   */
+  loaded: number;
+
+  /**
+   * The total number of items (`null` with `skipTotal`).
+   */
+  totalItems: number | null;
+}
+
+/**
+ * Options for the paginated list iterators.
+ */
+export interface IterateOptions extends ListOptions {
+  /**
+   * Number of items to fetch per page request.
+   */
+  batch?: number;
+
+  /**
+   * Callback invoked after each fetched page.
+   */
+  onProgress?: (progress: IterateProgress) => void;
 }
 
 /**
@@ -120,6 +410,44 @@ export interface FileOptions {
   download?: boolean;
 }
 
+/**
+ * Byte range of a download (`end` is inclusive and defaults to the end of the file).
+ */
+export interface DownloadRange {
+  start: number;
+  end?: number;
+}
+
+/**
+ * Options for file and backup downloads.
+ */
+export interface DownloadOptions extends SendOptions {
+  /**
+   * Byte range to download (e.g. to resume a partial download).
+   */
+  range?: DownloadRange;
+
+  /**
+   * File access token (if not set, it is requested automatically when needed).
+   */
+  token?: string;
+}
+
+/**
+ * Options for record file downloads.
+ */
+export interface FileDownloadOptions extends DownloadOptions {
+  /**
+   * Thumb size/format for image files.
+   */
+  thumb?: string;
+
+  /**
+   * Whether to serve the file as attachment.
+   */
+  download?: boolean;
+}
+
 /**
  * Options for realtime subscriptions.
  */
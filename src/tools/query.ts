@@ -0,0 +1,314 @@
+import { filter, formatValue } from './filter';
+
+/**
+ * PocketBase filter comparison operator.
+ *
+ * The `?` prefixed operators match if any of the multiple values
+ * (e.g. of a multiple select or relation field) matches.
+ */
+export type FilterOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | '~'
+  | '!~'
+  | '?='
+  | '?!='
+  | '?>'
+  | '?>='
+  | '?<'
+  | '?<='
+  | '?~'
+  | '?!~';
+
+/**
+ * Field modifier (e.g. `tags:length` or `title:lower`).
+ */
+export type FieldModifier = 'isset' | 'changed' | 'length' | 'each' | 'lower';
+
+/**
+ * Field name of `T`, optionally with a modifier (`tags:length`)
+ * or a relation path (`author.name`).
+ */
+export type QueryField<T> =
+  | Extract<keyof T, string>
+  | `${Extract<keyof T, string>}:${FieldModifier}`
+  | `${Extract<keyof T, string>}.${string}`;
+
+/**
+ * Reference to a field or a macro (e.g. `@now` or `@request.auth.id`)
+ * that is used as a comparison value.
+ */
+export class QueryRef {
+  readonly identifier: string;
+
+  constructor(identifier: string) {
+    this.identifier = checkIdentifier(identifier);
+  }
+
+  toString(): string {
+    return this.identifier;
+  }
+}
+
+/**
+ * Comparison value (strings are quoted and escaped the same way as with `filter()`).
+ */
+export type QueryValue = string | number | boolean | Date | null | QueryRef;
+
+/**
+ * Filter expression tree node.
+ */
+export type QueryNode =
+  | { type: 'compare'; field: string; op: FilterOperator; value: QueryValue }
+  | { type: 'group'; op: '&&' | '||'; items: QueryNode[] }
+  | { type: 'raw'; expr: string };
+
+const negatedOperators: Record<FilterOperator, FilterOperator> = {
+  '=': '!=',
+  '!=': '=',
+  '>': '<=',
+  '>=': '<',
+  '<': '>=',
+  '<=': '>',
+  '~': '!~',
+  '!~': '~',
+  // "none of the values matches" is "all values don't match"
+  '?=': '!=',
+  '?!=': '=',
+  '?>': '<=',
+  '?>=': '<',
+  '?<': '>=',
+  '?<=': '>',
+  '?~': '!~',
+  '?!~': '~',
+};
+
+/**
+ * Immutable filter expression created with a `QueryBuilder`.
+ *
+ * Use `toString()` to get the filter string (e.g. for the `filter` list option).
+ */
+export class QueryExpr {
+  readonly node: QueryNode;
+
+  constructor(node: QueryNode) {
+    this.node = node;
+  }
+
+  /**
+   * Returns whether the expression has no conditions (e.g. `q.and()`).
+   */
+  get isEmpty(): boolean {
+    return compile(this.node) === '';
+  }
+
+  /**
+   * Returns the negated expression.
+   *
+   * PocketBase filters don't have a negation operator, so the comparison
+   * operators are inverted and the groups are negated by De Morgan's laws.
+   * The non `?` operators are negated assuming a single value field
+   * (use the `any*` comparisons for the multiple value fields).
+   */
+  not(): QueryExpr {
+    return new QueryExpr(negate(this.node));
+  }
+
+  toString(): string {
+    return compile(this.node);
+  }
+}
+
+/**
+ * QueryBuilder creates type-safe filter expressions for the records of type `T`
+ * (e.g. `q.and(q.eq('status', 'active'), q.gt('created', date))`).
+ */
+export class QueryBuilder<T = Record<string, unknown>> {
+  /**
+   * Creates a comparison with the specified operator.
+   */
+  cmp(field: QueryField<T>, op: FilterOperator, value: QueryValue): QueryExpr {
+    if (!(op in negatedOperators)) {
+      throw new Error(`Invalid filter operator "${op}".`);
+    }
+
+    return new QueryExpr({ type: 'compare', field: checkIdentifier(field), op, value });
+  }
+
+  /** `field = value` */
+  eq(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '=', value);
+  }
+
+  /** `field != value` */
+  neq(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '!=', value);
+  }
+
+  /** `field > value` */
+  gt(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '>', value);
+  }
+
+  /** `field >= value` */
+  gte(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '>=', value);
+  }
+
+  /** `field < value` */
+  lt(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '<', value);
+  }
+
+  /** `field <= value` */
+  lte(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '<=', value);
+  }
+
+  /** `field ~ value` (contains, `%` wildcards are supported) */
+  like(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '~', value);
+  }
+
+  /** `field !~ value` */
+  notLike(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '!~', value);
+  }
+
+  /** `field ?= value` */
+  anyEq(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '?=', value);
+  }
+
+  /** `field ?!= value` */
+  anyNeq(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '?!=', value);
+  }
+
+  /** `field ?> value` */
+  anyGt(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '?>', value);
+  }
+
+  /** `field ?>= value` */
+  anyGte(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '?>=', value);
+  }
+
+  /** `field ?< value` */
+  anyLt(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '?<', value);
+  }
+
+  /** `field ?<= value` */
+  anyLte(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '?<=', value);
+  }
+
+  /** `field ?~ value` */
+  anyLike(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '?~', value);
+  }
+
+  /** `field ?!~ value` */
+  anyNotLike(field: QueryField<T>, value: QueryValue): QueryExpr {
+    return this.cmp(field, '?!~', value);
+  }
+
+  /**
+   * Joins the expressions with `&&` (the empty ones are ignored).
+   */
+  and(...exprs: QueryExpr[]): QueryExpr {
+    return new QueryExpr({ type: 'group', op: '&&', items: exprs.map((expr) => expr.node) });
+  }
+
+  /**
+   * Joins the expressions with `||` (the empty ones are ignored).
+   */
+  or(...exprs: QueryExpr[]): QueryExpr {
+    return new QueryExpr({ type: 'group', op: '||', items: exprs.map((expr) => expr.node) });
+  }
+
+  /**
+   * Returns the negated expression (see `QueryExpr.not()`).
+   */
+  not(expr: QueryExpr): QueryExpr {
+    return expr.not();
+  }
+
+  /**
+   * Creates a field or macro reference to compare with
+   * (e.g. `q.lt('expires', q.ref('@now'))`).
+   */
+  ref(identifier: QueryField<T> | `@${string}`): QueryRef {
+    return new QueryRef(identifier);
+  }
+
+  /**
+   * Creates an expression from a raw filter string with `filter()` placeholders.
+   *
+   * Raw expressions can't be negated.
+   */
+  raw(expr: string, params: Record<string, unknown> = {}): QueryExpr {
+    return new QueryExpr({ type: 'raw', expr: filter(expr, params).trim() });
+  }
+}
+
+/**
+ * Returns a query builder for the records of type `T`.
+ */
+export function query<T = Record<string, unknown>>(): QueryBuilder<T> {
+  return new QueryBuilder<T>();
+}
+
+/**
+ * Default (untyped) query builder.
+ */
+export const q = query();
+
+function checkIdentifier(identifier: string): string {
+  if (!/^@?[\w.:]+$/.test(identifier)) {
+    throw new Error(`Invalid filter identifier "${identifier}".`);
+  }
+
+  return identifier;
+}
+
+function compile(node: QueryNode): string {
+  switch (node.type) {
+    case 'compare': {
+      const value = node.value instanceof QueryRef ? node.value.identifier : formatValue(node.value);
+      return `${node.field} ${node.op} ${value}`;
+    }
+    case 'raw':
+      return node.expr;
+  }
+
+  const items = node.items
+    .map((item) => ({ item, expr: compile(item) }))
+    .filter(({ expr }) => expr !== '');
+
+  if (items.length <= 1) {
+    return items[0]?.expr || '';
+  }
+
+  // wrap the nested groups (and the raw expressions that may contain any operator)
+  return items
+    .map(({ item, expr }) => (item.type === 'compare' ? expr : `(${expr})`))
+    .join(` ${node.op} `);
+}
+
+function negate(node: QueryNode): QueryNode {
+  switch (node.type) {
+    case 'compare':
+      return { ...node, op: negatedOperators[node.op] };
+    case 'raw':
+      throw new Error("Raw filter expressions can't be negated.");
+  }
+
+  return { type: 'group', op: node.op === '&&' ? '||' : '&&', items: node.items.map(negate) };
+}
@@ -0,0 +1,14 @@
+/**
+ * Returns a new random request correlation id (UUID v4 if available).
+ */
+export function randomRequestId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  let result = '';
+  for (let i = 0; i < 32; i++) {
+    result += Math.floor(Math.random() * 16).toString(16);
+  }
+  return result;
+}
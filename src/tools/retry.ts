@@ -0,0 +1,119 @@
+import type { RetryOptions } from './options';
+
+/**
+ * Fully resolved retry policy.
+ */
+export type RetryPolicy = Required<RetryOptions>;
+
+const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  methods: ['GET', 'HEAD'],
+  statuses: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Merges the client and the request retry options into a single policy.
+ */
+export function resolveRetryPolicy(
+  clientOptions: RetryOptions = {},
+  requestOptions?: RetryOptions | false
+): RetryPolicy {
+  if (requestOptions === false) {
+    return { ...defaultRetryPolicy };
+  }
+
+  return {
+    ...defaultRetryPolicy,
+    ...clientOptions,
+    ...(requestOptions || {}),
+  };
+}
+
+/**
+ * Checks whether another attempt is allowed for the specified method.
+ */
+export function canRetry(
+  policy: RetryPolicy,
+  method: string,
+  attempt: number
+): boolean {
+  return (
+    attempt < policy.maxAttempts &&
+    policy.methods.some((m) => m.toUpperCase() === method.toUpperCase())
+  );
+}
+
+/**
+ * Returns the delay (in ms) before the next attempt.
+ *
+ * The `Retry-After` header of 429 and 503 responses takes precedence
+ * over the exponential backoff. Returns `null` if the server asked us
+ * to wait longer than the policy `maxDelay`.
+ */
+export function retryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  response?: Response
+): number | null {
+  if (response && (response.status === 429 || response.status === 503)) {
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter !== null) {
+      return retryAfter <= policy.maxDelay ? retryAfter : null;
+    }
+  }
+
+  const delay = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(2, attempt - 1)
+  );
+
+  return policy.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+/**
+ * Parses a `Retry-After` header value (delta seconds or HTTP date) into ms.
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Waits for the specified delay, rejecting early if the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
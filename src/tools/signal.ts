@@ -0,0 +1,97 @@
+/**
+ * Links the provided signals to the target controller so that the
+ * controller is aborted as soon as any of the signals is aborted.
+ *
+ * Returns a function that detaches the registered listeners.
+ */
+export function linkSignals(
+  target: AbortController,
+  signals: Array<AbortSignal | null | undefined>
+): () => void {
+  const cleanups: Array<() => void> = [];
+
+  for (const signal of signals) {
+    if (!signal) {
+      continue;
+    }
+
+    if (signal.aborted) {
+      target.abort(signal.reason);
+      break;
+    }
+
+    const onAbort = () => target.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    cleanups.push(() => signal.removeEventListener('abort', onAbort));
+  }
+
+  return () => {
+    for (const cleanup of cleanups) {
+      cleanup();
+    }
+  };
+}
+
+/**
+ * Wraps a response body stream so that it errors with the abort reason
+ * when the signal is aborted while the body is still being read.
+ *
+ * The `onDone` callback is invoked once the stream is fully read,
+ * errored, cancelled or aborted.
+ */
+export function trackStream<T>(
+  stream: ReadableStream<T>,
+  signal: AbortSignal,
+  onDone: () => void
+): ReadableStream<T> {
+  const reader = stream.getReader();
+  let finished = false;
+  let onAbort = () => {};
+
+  const finish = () => {
+    if (!finished) {
+      finished = true;
+      signal.removeEventListener('abort', onAbort);
+      onDone();
+    }
+  };
+
+  return new ReadableStream<T>({
+    start(controller) {
+      onAbort = () => {
+        controller.error(signal.reason);
+        reader.cancel(signal.reason).catch(() => {});
+        finish();
+      };
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await reader.read();
+        if (finished) {
+          return;
+        }
+        if (done) {
+          controller.close();
+          finish();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (err) {
+        if (!finished) {
+          controller.error(err);
+          finish();
+        }
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * Transport executes the client HTTP requests and opens the realtime stream.
+ *
+ * Custom transports (e.g. Node http with keep-alive agents, a Service Worker
+ * proxy or an in-process test double) can be set with the `transport` client option.
+ */
+export interface Transport {
+  /**
+   * Sends an HTTP request (with the same semantics as the global `fetch`).
+   */
+  fetch(url: string, init: RequestInit): Promise<Response>;
+
+  /**
+   * Opens the realtime SSE stream of the specified url.
+   */
+  eventSource(url: string): EventSource;
+}
+
+/**
+ * FetchTransport is the default transport that uses
+ * the global `fetch` and `EventSource`.
+ */
+export class FetchTransport implements Transport {
+  fetch(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, init);
+  }
+
+  eventSource(url: string): EventSource {
+    if (typeof EventSource === 'undefined') {
+      throw new Error('EventSource is not available. Please use a polyfill.');
+    }
+
+    return new EventSource(url);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Upload progress callback.
+ *
+ * `total` is `0` if the upload size is unknown.
+ */
+export type UploadProgressFunc = (loaded: number, total: number) => void;
+
+type FetchFunc = (url: RequestInfo | URL, config?: RequestInit) => Promise<Response>;
+
+// statuses that don't allow a response body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Returns a fetch compatible function that reports the request body upload progress.
+ *
+ * In browsers (and without a custom fetch) the request is sent with XMLHttpRequest,
+ * otherwise the body is streamed through a bytes counter (Node 18+).
+ */
+export function uploadProgressFetch(
+  onProgress: UploadProgressFunc,
+  customFetch?: FetchFunc
+): FetchFunc {
+  if (!customFetch && typeof XMLHttpRequest !== 'undefined') {
+    return (url, config = {}) => xhrFetch(String(url), config, onProgress);
+  }
+
+  return (url, config = {}) =>
+    streamFetch(String(url), config, onProgress, customFetch || fetch);
+}
+
+/**
+ * Sends the request with XMLHttpRequest (reporting `xhr.upload` progress events).
+ */
+function xhrFetch(
+  url: string,
+  init: RequestInit,
+  onProgress: UploadProgressFunc
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const signal = init.signal;
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || 'GET', url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+
+    new Headers(init.headers).forEach((value, name) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    xhr.upload.onprogress = (e) => {
+      onProgress(e.loaded, e.lengthComputable ? e.total : 0);
+    };
+
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
+
+      const headers = new Headers();
+      for (const line of xhr.getAllResponseHeaders().trim().split(/[\r\n]+/)) {
+        const index = line.indexOf(':');
+        if (index > 0) {
+          headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+        }
+      }
+
+      resolve(
+        new Response(NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers,
+        })
+      );
+    };
+
+    xhr.onerror = xhr.ontimeout = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new TypeError('Network request failed'));
+    };
+
+    xhr.onabort = () => {
+      reject(signal?.reason ?? new DOMException('The request was aborted.', 'AbortError'));
+    };
+
+    xhr.send((init.body as XMLHttpRequestBodyInit | null | undefined) ?? null);
+  });
+}
+
+/**
+ * Sends the request body as a stream that counts the sent bytes.
+ */
+async function streamFetch(
+  url: string,
+  init: RequestInit,
+  onProgress: UploadProgressFunc,
+  fetchFunc: FetchFunc
+): Promise<Response> {
+  if (init.body === undefined || init.body === null) {
+    return fetchFunc(url, init);
+  }
+
+  // serialize the body (e.g. multipart FormData) to know its total size
+  // and the generated Content-Type (with the multipart boundary)
+  const serialized = new Request(url, { method: init.method, body: init.body });
+  const headers = new Headers(init.headers);
+  const contentType = serialized.headers.get('Content-Type');
+  if (contentType && !headers.has('Content-Type')) {
+    headers.set('Content-Type', contentType);
+  }
+
+  const blob = await serialized.blob();
+  const total = blob.size;
+  let loaded = 0;
+
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      onProgress(loaded, total);
+      controller.enqueue(chunk);
+    },
+  });
+
+  return fetchFunc(url, {
+    ...init,
+    headers,
+    body: blob.stream().pipeThrough(counter),
+    duplex: 'half',
+  } as RequestInit);
+}
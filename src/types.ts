@@ -27,6 +27,19 @@ export interface ListResult<T> {
   items: T[];
 }
 
+/**
+ * List result for cursor paginated responses
+ */
+export interface CursorListResult<T> {
+  perPage: number;
+  items: T[];
+
+  /**
+   * Opaque cursor of the next page (`null` if there are no more items).
+   */
+  cursor: string | null;
+}
+
 /**
  * Collection model
  */
@@ -1,6 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import PocketBase from '../src/PocketBase';
 import { ClientResponseError } from '../src/ClientResponseError';
+import { delayedFetch } from './helpers';
 
 describe('PocketBase', () => {
   let pb: PocketBase;
@@ -110,10 +111,24 @@ describe('PocketBase', () => {
   });
 
   describe('autoCancellation', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
     it('should return the client for chaining', () => {
       const result = pb.autoCancellation(false);
       expect(result).toBe(pb);
     });
+
+    it('should cancel duplicated requests by default', async () => {
+      vi.stubGlobal('fetch', delayedFetch());
+
+      const first = pb.send('/api/test').catch((e) => e);
+      const second = pb.send('/api/test');
+
+      expect((await first).isAbort).toBe(true);
+      await expect(second).resolves.toEqual({ items: [] });
+    });
   });
 
   describe('cancelAllRequests', () => {
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { jsonResponse, createToken } from './helpers';
+
+describe('autoRefresh', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  const record = {
+    id: 'u1',
+    collectionId: 'users_id',
+    collectionName: 'users',
+    created: '',
+    updated: '',
+  };
+  const freshToken = createToken({ collectionId: 'users_id', exp: Date.now() / 1000 + 3600 });
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (url: string, config: RequestInit) => {
+      if (url.endsWith('/auth-refresh')) {
+        return jsonResponse(200, { token: freshToken, record });
+      }
+      return jsonResponse(200, {
+        auth: (config.headers as Record<string, string>)['Authorization'],
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should refresh the token before it expires', async () => {
+    pb.authStore.save(
+      createToken({ collectionId: 'users_id', exp: Date.now() / 1000 + 60 }),
+      record
+    );
+    pb.autoRefresh();
+
+    const result = await pb.send('/api/test');
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://127.0.0.1:8090/api/collections/users_id/auth-refresh'
+    );
+    expect(result).toEqual({ auth: freshToken });
+    expect(pb.authStore.token).toBe(freshToken);
+  });
+
+  it('should share a single in-flight refresh between concurrent requests', async () => {
+    pb.authStore.save(
+      createToken({ collectionId: 'users_id', exp: Date.now() / 1000 - 1 }),
+      record
+    );
+    pb.autoRefresh();
+
+    await Promise.all([
+      pb.send('/api/a', { requestKey: null }),
+      pb.send('/api/b', { requestKey: null }),
+      pb.send('/api/c', { requestKey: null }),
+    ]);
+
+    const refreshCalls = fetchMock.mock.calls.filter((c) =>
+      (c[0] as string).endsWith('/auth-refresh')
+    );
+    expect(refreshCalls).toHaveLength(1);
+  });
+
+  it('should refresh and replay once on 401', async () => {
+    const staleToken = createToken({ collectionId: 'users_id', exp: Date.now() / 1000 + 3600 });
+    pb.authStore.save(staleToken, record);
+    pb.autoRefresh();
+
+    const apiMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(401))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    await expect(pb.send('/api/test', { fetch: apiMock })).resolves.toEqual({ ok: true });
+    expect(apiMock).toHaveBeenCalledTimes(2);
+    expect(apiMock.mock.calls[1][1].headers['Authorization']).toBe(freshToken);
+  });
+
+  it('should clear the store if the refresh fails', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(401));
+    pb.authStore.save(
+      createToken({ collectionId: 'users_id', exp: Date.now() / 1000 + 3600 }),
+      record
+    );
+    pb.autoRefresh();
+
+    const err = await pb.send('/api/test').catch((e) => e);
+
+    expect(err.status).toBe(401);
+    expect(pb.authStore.token).toBe('');
+  });
+
+  it('should not refresh when disabled', async () => {
+    pb.authStore.save(
+      createToken({ collectionId: 'users_id', exp: Date.now() / 1000 + 60 }),
+      record
+    );
+    pb.autoRefresh().autoRefresh(false);
+
+    await pb.send('/api/test');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
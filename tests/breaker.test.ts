@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { CircuitOpenError } from '../src/ClientResponseError';
+
+describe('breaker', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  afterEach(() => {
+    pb.breaker.disable();
+  });
+
+  it('should not intercept the requests by default', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 503 }));
+
+    for (let i = 0; i < 10; i++) {
+      await pb.send('/api/test', { fetch: fetchMock, requestKey: null }).catch(() => null);
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(10);
+    expect(pb.breaker.state).toBe('closed');
+  });
+
+  it('should open after consecutive failures and fail fast', async () => {
+    pb.breaker.enable({ threshold: 2, probeInterval: 60000 });
+    const states: string[] = [];
+    pb.breaker.onStateChange((state) => states.push(state));
+
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response(null, { status: 502 }));
+
+    for (let i = 0; i < 4; i++) {
+      await pb.send('/api/test', { fetch: fetchMock, requestKey: null }).catch(() => null);
+    }
+    expect(states).toEqual(['open']);
+
+    const err = await pb
+      .send('/api/test', { fetch: fetchMock, requestKey: null })
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect(err.kind).toBe('circuit_open');
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should close once the health probe succeeds', async () => {
+    const events: string[] = [];
+    pb.instrumentation.on((e) => {
+      if (e.type === 'breaker:state') {
+        events.push(`${e.prevState}>${e.state}`);
+      }
+    });
+
+    let healthy = false;
+    pb.use(async (request, next) =>
+      next({
+        ...request,
+        options: {
+          ...request.options,
+          fetch: async () => new Response(null, { status: healthy ? 200 : 503 }),
+        },
+      })
+    );
+
+    pb.breaker.enable({ threshold: 1, probeInterval: 5 });
+    await pb.send('/api/test', { requestKey: null }).catch(() => null);
+    expect(pb.breaker.state).not.toBe('closed');
+
+    // the first probe fails
+    await vi.waitFor(() => expect(events).toContain('half-open>open'));
+
+    healthy = true;
+    await vi.waitFor(() => expect(pb.breaker.state).toBe('closed'));
+    expect(events.slice(0, 4)).toEqual([
+      'closed>open',
+      'open>half-open',
+      'half-open>open',
+      'open>half-open',
+    ]);
+
+    await expect(pb.send('/api/test', { requestKey: null })).resolves.toBe('');
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+
+describe('cache', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    let counter = 0;
+    fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ id: 'a', counter: ++counter }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should not cache requests without the cache option', async () => {
+    await pb.collection('posts').getOne('a');
+    await pb.collection('posts').getOne('a');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve cached responses until they expire', async () => {
+    vi.useFakeTimers();
+
+    const first = await pb.collection('posts').getOne('a', { cache: { ttl: 1000 } });
+    const second = await pb.collection('posts').getOne('a', { cache: { ttl: 1000 } });
+    vi.advanceTimersByTime(1001);
+    const third = await pb.collection('posts').getOne('a', { cache: { ttl: 1000 } });
+
+    vi.useRealTimers();
+    expect(first).toEqual(second);
+    expect(first).not.toBe(second);
+    expect(third.counter).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove the expired entries', async () => {
+    vi.useFakeTimers();
+
+    for (let i = 0; i < 5; i++) {
+      await pb.collection('posts').getOne(`r${i}`, { cache: { ttl: 1 } });
+      vi.advanceTimersByTime(2);
+    }
+    await pb.collection('posts').getOne('a', { cache: { ttl: 1000 } });
+
+    // the expired entries are removed on insert
+    const stored: string[] = [];
+    pb.cache.invalidate((entry) => {
+      stored.push(entry.path);
+      return false;
+    });
+    expect(stored).toEqual(['/api/collections/posts/records/a']);
+    expect(pb.cache.size).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    const size = pb.cache.size;
+
+    vi.useRealTimers();
+    expect(size).toBe(0);
+  });
+
+  it('should key the entries on the query and the auth identity', async () => {
+    await pb.collection('posts').getOne('a', { cache: true });
+    await pb.collection('posts').getOne('a', { cache: true, expand: 'author' });
+    pb.authStore.save('token', null);
+    await pb.collection('posts').getOne('a', { cache: true });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[1][0]).toContain('expand=author');
+  });
+
+  it('should key the entries on the request headers', async () => {
+    const tenantA = pb.clone({ headers: { 'X-Tenant': 'a' } });
+    const tenantB = pb.clone({ headers: { 'X-Tenant': 'b' } });
+
+    const a = await tenantA.collection('posts').getOne('a', { cache: true });
+    const b = await tenantB.collection('posts').getOne('a', { cache: true });
+
+    expect(a.counter).toBe(1);
+    expect(b.counter).toBe(2);
+    expect(await tenantA.collection('posts').getOne('a', { cache: true })).toEqual(a);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore the correlation id header in the entry keys', async () => {
+    pb = new PocketBase('http://127.0.0.1:8090', undefined, { requestIdHeader: 'X-Request-Id' });
+
+    await pb.collection('posts').getOne('a', { cache: true });
+    await pb.collection('posts').getOne('a', { cache: true });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should invalidate entries by tag and predicate', async () => {
+    await pb.collection('posts').getList(1, 10, { cache: { tags: ['dashboard'] } });
+    await pb.collection('posts').getOne('a', { cache: true });
+
+    expect(pb.cache.invalidate('dashboard')).toBe(1);
+    expect(pb.cache.invalidate((entry) => entry.path.endsWith('/a'))).toBe(1);
+    expect(pb.cache.size).toBe(0);
+  });
+
+  it('should invalidate the collection entries on mutations', async () => {
+    await pb.collection('posts').getOne('a', { cache: true });
+    await pb.collection('comments').getOne('a', { cache: true });
+    await pb.collection('posts').update('a', { title: 'test' });
+    await pb.collection('posts').getOne('a', { cache: true });
+    await pb.collection('comments').getOne('a', { cache: true });
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should invalidate the entries cached by collection id or name', async () => {
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({ id: 'a', collectionId: 'pbc_posts', collectionName: 'posts' }),
+          { status: 200, headers: { 'Content-Type': 'application/json' } }
+        )
+    );
+
+    await pb.collection('pbc_posts').getOne('a', { cache: true });
+    await pb.collection('posts').getOne('a', { cache: true });
+    expect(pb.cache.invalidate((entry) => entry.tags.includes('collection:posts'))).toBe(2);
+
+    await pb.collection('pbc_posts').getOne('a', { cache: true });
+    await pb.collection('posts').getOne('a', { cache: true });
+    await pb.collection('posts').delete('a');
+    expect(pb.cache.size).toBe(0);
+  });
+
+  it('should invalidate the collections modified by batch requests', async () => {
+    await pb.collection('posts').getOne('a', { cache: true });
+    await pb.collection('comments').getOne('a', { cache: true });
+    await pb.collection('tags').getOne('a', { cache: true });
+
+    const batch = pb.createBatch();
+    batch.collection('posts').update('a', { title: 'test' });
+    batch.collection('comments').delete('a');
+    await batch.send();
+
+    expect(pb.cache.invalidate(() => true)).toBe(1);
+
+    await pb.collection('posts').getOne('a', { cache: true });
+    await pb.send('/api/batch', { method: 'POST', body: { custom: true } });
+    expect(pb.cache.size).toBe(0);
+  });
+
+  it('should forward fetch cache modes', async () => {
+    await pb.send('/api/test', { cache: 'no-store' });
+
+    expect(fetchMock.mock.calls[0][1].cache).toBe('no-store');
+    expect(pb.cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { BaseAuthStore } from '../src/stores/BaseAuthStore';
+import { ClientResponseError } from '../src/ClientResponseError';
+import { MemoryQueueStorage } from '../src/offline/QueueStorage';
+import { CassetteRecorder, CassettePlayer } from '../src/tools/cassette';
+import { PocketBaseEmulator } from '../src/testing';
+import { jsonResponse } from './helpers';
+
+describe('Cassette', () => {
+  let emulator: PocketBaseEmulator;
+
+  beforeEach(() => {
+    emulator = new PocketBaseEmulator({
+      collections: {
+        users: [{ email: 'test@example.com', password: '1234567890' }],
+        posts: [{ id: 'post1', title: 'a' }],
+      },
+    });
+  });
+
+  async function record(): Promise<CassetteRecorder> {
+    const pb = new PocketBase('https://example.com', new BaseAuthStore());
+    const recorder = new CassetteRecorder();
+    emulator.attach(pb);
+    pb.use(recorder.middleware);
+
+    await pb.collection('users').authWithPassword('test@example.com', '1234567890');
+    await pb.collection('posts').getOne('post1');
+    await pb.collection('posts').create({ title: 'b' });
+    await pb.collection('posts').getOne('missing').catch(() => null);
+
+    return recorder;
+  }
+
+  it('should record the requests in HAR format with redacted auth', async () => {
+    const recorder = await record();
+    const cassette = recorder.cassette();
+
+    expect(cassette.log.version).toBe('1.2');
+    expect(cassette.log.entries).toHaveLength(4);
+
+    const [, getOne, create, missing] = cassette.log.entries;
+    expect(getOne.request).toMatchObject({
+      method: 'GET',
+      url: 'https://example.com/api/collections/posts/records/post1',
+    });
+    expect(getOne.request.headers).toContainEqual({
+      name: 'authorization',
+      value: '[REDACTED]',
+    });
+    expect(JSON.parse(getOne.response.content.text as string).title).toBe('a');
+    expect(create.request.postData).toEqual({
+      mimeType: 'application/json',
+      text: JSON.stringify({ title: 'b' }),
+    });
+    expect(missing.response.status).toBe(404);
+  });
+
+  it('should redact the token fields of the recorded bodies', async () => {
+    const [auth] = (await record()).cassette().log.entries;
+    const body = JSON.parse(auth.response.content.text as string);
+
+    expect(body.token).toBe('[REDACTED]');
+    expect(body.record.email).toBe('test@example.com');
+  });
+
+  it('should redact the password fields of the recorded bodies', async () => {
+    const [auth] = (await record()).cassette().log.entries;
+    const body = JSON.parse(auth.request.postData?.text as string);
+
+    expect(auth.request.url).toBe(
+      'https://example.com/api/collections/users/auth-with-password'
+    );
+    expect(body.password).toBe('[REDACTED]');
+    expect(body.identity).toBe('test@example.com');
+  });
+
+  it('should replay the recorded responses', async () => {
+    const cassette = JSON.stringify((await record()).cassette());
+
+    const pb = new PocketBase('http://localhost:8090', new BaseAuthStore());
+    const player = new CassettePlayer(cassette);
+    pb.use(player.middleware);
+
+    const auth = await pb
+      .collection('users')
+      .authWithPassword('test@example.com', '1234567890');
+    expect(auth.record.email).toBe('test@example.com');
+    expect((await pb.collection('posts').getOne('post1')).title).toBe('a');
+    expect((await pb.collection('posts').create({ title: 'b' })).title).toBe('b');
+    await expect(pb.collection('posts').getOne('missing')).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(player.pending).toBe(0);
+  });
+
+  it('should replay the requests with redacted body fields', async () => {
+    const recordingClient = new PocketBase('https://example.com', new BaseAuthStore());
+    const recorder = new CassetteRecorder();
+    recordingClient.use(recorder.middleware);
+    await recordingClient.send('/api/custom', {
+      method: 'POST',
+      body: { token: 'abc', email: 'test@example.com' },
+      fetch: vi.fn().mockResolvedValue(jsonResponse(200, { ok: true })),
+    });
+
+    const pb = new PocketBase('http://localhost:8090', new BaseAuthStore());
+    const player = new CassettePlayer(recorder.cassette());
+    pb.use(player.middleware);
+
+    const mismatch = await pb
+      .send('/api/custom', { method: 'POST', body: { token: 'abc', email: 'other@example.com' } })
+      .catch((e) => e);
+    expect(mismatch).toBeInstanceOf(ClientResponseError);
+
+    const result = await pb.send('/api/custom', {
+      method: 'POST',
+      body: { token: 'abc', email: 'test@example.com' },
+    });
+    expect(result).toEqual({ ok: true });
+    expect(player.pending).toBe(0);
+  });
+
+  it('should fail on unmatched requests', async () => {
+    const pb = new PocketBase('http://localhost:8090', new BaseAuthStore());
+    const player = new CassettePlayer((await record()).cassette());
+    pb.use(player.middleware);
+
+    const err = await pb
+      .collection('posts')
+      .create({ title: 'other' })
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(ClientResponseError);
+    expect(err.message).toBe(
+      'No cassette entry matches the request POST /api/collections/posts/records.'
+    );
+    expect(player.unmatched).toEqual(['POST /api/collections/posts/records']);
+  });
+
+  it('should not retry, queue or fail over unmatched requests', async () => {
+    const pb = new PocketBase(
+      ['http://localhost:8090', 'http://localhost:8091'],
+      new BaseAuthStore(),
+      { retry: { maxAttempts: 3, baseDelay: 0 } }
+    );
+    await pb.offline.enable({ storage: new MemoryQueueStorage() });
+    const player = new CassettePlayer({
+      log: { version: '1.2', creator: { name: 'pocketbase', version: '' }, entries: [] },
+    });
+    pb.use(player.middleware);
+
+    const err = await pb.collection('posts').getOne('post1').catch((e) => e);
+    const mutationErr = await pb.collection('posts').delete('post1').catch((e) => e);
+
+    expect(err.kind).toBe('unknown');
+    expect(mutationErr.kind).toBe('unknown');
+    expect(pb.offline.size).toBe(0);
+    expect(player.unmatched).toEqual([
+      'GET /api/collections/posts/records/post1',
+      'DELETE /api/collections/posts/records/post1',
+    ]);
+  });
+});
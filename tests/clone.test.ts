@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { MemoryAuthStore } from '../src/stores';
+import { jsonResponse, createToken } from './helpers';
+
+describe('clone', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  function authFetch() {
+    return vi.fn(async (url: RequestInfo | URL, config?: RequestInit) => {
+      const headers = config?.headers as Record<string, string>;
+      return new Response(
+        JSON.stringify({
+          url: String(url),
+          auth: headers['Authorization'] || '',
+          tenant: headers['X-Tenant'] || '',
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    });
+  }
+
+  it('should isolate the auth of the clone', async () => {
+    pb.authStore.save('superuser_token', null);
+    const middleware = vi.fn((request, next) => next(request));
+    pb.use(middleware);
+
+    const user = pb.asUser('user_token');
+    const guest = pb.clone({ headers: { 'X-Tenant': 't1' } });
+
+    const fetchMock = authFetch();
+    expect(await user.send('/api/a', { fetch: fetchMock })).toMatchObject({
+      auth: 'user_token',
+    });
+    expect(await guest.send('/api/a', { fetch: fetchMock })).toMatchObject({
+      auth: '',
+      tenant: 't1',
+    });
+    expect(await pb.send('/api/a', { fetch: fetchMock })).toMatchObject({
+      auth: 'superuser_token',
+      tenant: '',
+    });
+
+    expect(middleware).toHaveBeenCalledTimes(3);
+    expect(pb.authStore.token).toBe('superuser_token');
+    expect(user.collection('users')).not.toBe(pb.collection('users'));
+    expect(user.realtime).not.toBe(pb.realtime);
+  });
+
+  it('should apply the hooks of the sending client', async () => {
+    const clone = pb.clone();
+    clone.beforeSend = (url, options) => {
+      options.headers = { ...(options.headers as Record<string, string>), 'X-Tenant': 't1' };
+      return { url, options };
+    };
+    clone.afterSend = (_, data) => ({ ...data, hooked: true });
+    const scoped = clone.withSignal(new AbortController().signal);
+
+    const fetchMock = authFetch();
+    expect(await clone.send('/api/a', { fetch: fetchMock })).toMatchObject({
+      tenant: 't1',
+      hooked: true,
+    });
+    expect(await scoped.send('/api/a', { fetch: fetchMock })).toMatchObject({
+      tenant: 't1',
+      hooked: true,
+    });
+    expect(await pb.send('/api/a', { fetch: fetchMock })).not.toHaveProperty('hooked');
+  });
+
+  it('should not auto cancel the requests of other clones', async () => {
+    let resolveFetch: (() => void) | undefined;
+    const fetchMock = vi.fn(
+      (url: RequestInfo | URL) =>
+        new Promise<Response>((resolve) => {
+          resolveFetch = () => resolve(new Response(String(url)));
+        })
+    );
+
+    const first = pb.send('/api/a', { fetch: fetchMock });
+    await vi.waitFor(() => expect(resolveFetch).toBeDefined());
+    const pending = resolveFetch!;
+
+    const second = pb.asUser('user_token').send('/api/a', {
+      fetch: vi.fn().mockResolvedValue(new Response('clone')),
+    });
+
+    pending();
+    expect(await first).toBe('http://127.0.0.1:8090/api/a');
+    expect(await second).toBe('clone');
+  });
+
+  it('should not register the clone middlewares on the parent client', async () => {
+    const parentMiddleware = vi.fn((request, next) => next(request));
+    pb.use(parentMiddleware);
+
+    const cloneMiddleware = vi.fn((request, next) => next(request));
+    const scopedMiddleware = vi.fn((request, next) => next(request));
+    const clone = pb.clone();
+    clone.use(cloneMiddleware);
+    pb.withSignal(new AbortController().signal).use(scopedMiddleware);
+
+    const fetchMock = authFetch();
+    await pb.send('/api/a', { fetch: fetchMock });
+    await clone.send('/api/b', { fetch: fetchMock });
+
+    expect(parentMiddleware).toHaveBeenCalledTimes(2);
+    expect(cloneMiddleware).toHaveBeenCalledTimes(1);
+    expect(scopedMiddleware).not.toHaveBeenCalled();
+  });
+
+  it('should not dispose the parent auth refresher', async () => {
+    const token = (exp: number) => createToken({ exp, collectionId: 'users' });
+    const fetchMock = vi.fn(async () => {
+      const body = { token: token(Math.floor(Date.now() / 1000) + 3600), record: { id: 'u1' } };
+      return jsonResponse(200, body);
+    });
+    pb.use((request, next) =>
+      next({ ...request, options: { ...request.options, fetch: fetchMock } })
+    );
+
+    // expiring token -> the refresh timer fires right away
+    pb.authStore.save(token(Math.floor(Date.now() / 1000) + 60), null);
+    pb.autoRefresh({ timer: true });
+    pb.withSignal(new AbortController().signal).autoRefresh(false);
+
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    expect(String(fetchMock.mock.calls[0][0])).toContain('/auth-refresh');
+    pb.autoRefresh(false);
+  });
+
+  it('should use the clone base url', async () => {
+    const clone = pb.clone({ baseURL: 'http://example.com/' });
+
+    expect(clone.baseURL).toBe('http://example.com');
+    expect(clone.files.getURL({ id: 'r1', collectionId: 'c1' } as never, 'a.txt')).toBe(
+      'http://example.com/api/files/c1/r1/a.txt'
+    );
+    expect(pb.baseURL).toBe('http://127.0.0.1:8090');
+  });
+
+  it('should impersonate with an in-memory auth store', async () => {
+    pb.authStore.save('superuser_token', null);
+    const fetchMock = vi.fn(async (url: RequestInfo | URL, config?: RequestInit) => {
+      const body = String(url).endsWith('/impersonate')
+        ? { token: 'impersonated_token' }
+        : {
+            token: 'refreshed_token',
+            record: {
+              id: 'u1',
+              auth: (config?.headers as Record<string, string>)['Authorization'],
+            },
+          };
+      return new Response(JSON.stringify(body), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    });
+    pb.use((request, next) =>
+      next({ ...request, options: { ...request.options, fetch: fetchMock } })
+    );
+
+    const client = await pb.collection('users').impersonate('u1', 3600);
+
+    expect(client.authStore).toBeInstanceOf(MemoryAuthStore);
+    expect(client.authStore.token).toBe('impersonated_token');
+    expect(client.authStore.record).toMatchObject({ id: 'u1', auth: 'impersonated_token' });
+    expect(pb.authStore.token).toBe('superuser_token');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { query } from '../src/tools/query';
+
+describe('getCursorList', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  // list endpoint returning the first `perPage` items matching the query
+  function cursorFetch(items: Array<Record<string, unknown>>) {
+    return vi.fn(async (url: RequestInfo | URL) => {
+      const perPage = Number(new URL(String(url)).searchParams.get('perPage'));
+
+      return new Response(
+        JSON.stringify({
+          page: 1,
+          perPage,
+          totalItems: -1,
+          totalPages: -1,
+          items: items.slice(0, perPage),
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    });
+  }
+
+  const items = [
+    { id: 'a1', created: '2024-01-01 10:00:00.000Z' },
+    { id: 'b2', created: '2024-01-02 10:00:00.000Z' },
+    { id: 'c3', created: '2024-01-03 10:00:00.000Z' },
+  ];
+
+  it('should return the first page with a cursor to the next one', async () => {
+    const fetchMock = cursorFetch(items);
+
+    const result = await pb.collection('posts').getCursorList(2, { fetch: fetchMock });
+
+    expect(result.perPage).toBe(2);
+    expect(result.items.map((item) => item.id)).toEqual(['a1', 'b2']);
+    expect(result.cursor).toEqual(expect.any(String));
+
+    const query = new URL(String(fetchMock.mock.calls[0][0])).searchParams;
+    expect(query.get('sort')).toBe('created,id');
+    expect(query.get('skipTotal')).toBe('true');
+    expect(query.get('page')).toBe('1');
+    expect(query.has('filter')).toBe(false);
+    expect(query.has('cursor')).toBe(false);
+  });
+
+  it('should continue after the last item of the cursor', async () => {
+    const first = await pb.collection('posts').getCursorList(2, { fetch: cursorFetch(items) });
+
+    const fetchMock = cursorFetch([]);
+    await pb.collection('posts').getCursorList(2, {
+      fetch: fetchMock,
+      cursor: first.cursor,
+      filter: 'active = true',
+    });
+
+    const query = new URL(String(fetchMock.mock.calls[0][0])).searchParams;
+    expect(query.get('filter')).toBe(
+      "(active = true) && (created > '2024-01-02 10:00:00.000Z' || " +
+        "(created = '2024-01-02 10:00:00.000Z' && id > 'b2'))"
+    );
+  });
+
+  it('should compare descending sort keys with <', async () => {
+    const first = await pb.collection('posts').getCursorList(1, {
+      fetch: cursorFetch([{ id: 'c3', views: 10 }]),
+      sort: '-views',
+    });
+
+    const fetchMock = cursorFetch([]);
+    await pb.collection('posts').getCursorList(1, {
+      fetch: fetchMock,
+      sort: '-views',
+      cursor: first.cursor,
+    });
+
+    const query = new URL(String(fetchMock.mock.calls[0][0])).searchParams;
+    expect(query.get('sort')).toBe('-views,-id');
+    expect(query.get('filter')).toBe("views < 10 || (views = 10 && id < 'c3')");
+  });
+
+  it('should return a null cursor for the last page', async () => {
+    const result = await pb.collection('posts').getCursorList(5, { fetch: cursorFetch(items) });
+
+    expect(result.items).toHaveLength(3);
+    expect(result.cursor).toBeNull();
+  });
+
+  it('should reject invalid cursors and cursors of a different sort', async () => {
+    const fetchMock = cursorFetch(items);
+    const first = await pb.collection('posts').getCursorList(2, { fetch: fetchMock });
+
+    await expect(
+      pb.collection('posts').getCursorList(2, { fetch: fetchMock, cursor: 'invalid!' })
+    ).rejects.toThrow('Invalid pagination cursor.');
+
+    await expect(
+      pb.collection('posts').getCursorList(2, {
+        fetch: fetchMock,
+        cursor: first.cursor,
+        sort: '-created',
+      })
+    ).rejects.toThrow('different sort');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject items without the sort key fields', async () => {
+    await expect(
+      pb.collection('posts').getCursorList(1, { fetch: cursorFetch([{ id: 'a1' }]) })
+    ).rejects.toThrow('Missing cursor sort field "created"');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { delayedFetch } from './helpers';
+
+describe('dedupe', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should share identical in-flight GET requests in dedupe mode', async () => {
+    const fetchMock = delayedFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    pb.autoCancellation('dedupe');
+
+    const [a, b] = await Promise.all([
+      pb.collection('posts').getList(1, 10),
+      pb.collection('posts').getList(1, 10),
+    ]);
+    await pb.collection('posts').getList(2, 10);
+
+    expect(a).toBe(b);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not dedupe different queries or non-GET requests', async () => {
+    const fetchMock = delayedFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    pb = new PocketBase('http://127.0.0.1:8090', undefined, {
+      autoCancellation: 'dedupe',
+    });
+
+    const results = await Promise.all([
+      pb.collection('posts').getList(1, 10),
+      pb.collection('posts').getList(1, 20),
+      pb.send('/api/test', { method: 'POST' }),
+      pb.send('/api/test', { method: 'POST' }),
+    ]);
+
+    expect(results).toHaveLength(4);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not dedupe requests with different headers or options', async () => {
+    const fetchMock = delayedFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    pb = new PocketBase('http://127.0.0.1:8090', undefined, {
+      autoCancellation: 'dedupe',
+      requestIdHeader: 'X-Request-Id',
+    });
+
+    await Promise.all([
+      pb.send('/api/test', {}),
+      pb.send('/api/test', {}),
+      pb.send('/api/test', { headers: { 'X-Tenant': 't1' } }),
+      pb.send('/api/test', { responseType: 'text' }),
+      pb.send('/api/test', { timeout: 1000 }),
+      pb.send('/api/test', { retry: { maxAttempts: 2 } }),
+      pb.send('/api/test', { fetch: delayedFetch() }),
+    ]);
+
+    // the first two requests are shared (despite their different request ids)
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+});
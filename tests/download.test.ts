@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { NotFoundError } from '../src/ClientResponseError';
+import { createToken } from './helpers';
+
+describe('downloads', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  const record = { id: 'r1', collectionId: 'c1', collectionName: 'posts' };
+  const bytes = new Uint8Array([0, 1, 2, 254, 255, 10, 13]);
+
+  function fileFetch(protectedToken = '') {
+    return vi.fn(async (url: RequestInfo | URL, config?: RequestInit) => {
+      const parsed = new URL(String(url));
+
+      if (parsed.pathname === '/api/files/token') {
+        return new Response(JSON.stringify({ token: 'file_token' }), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (protectedToken && parsed.searchParams.get('token') !== protectedToken) {
+        return new Response(JSON.stringify({ message: 'Not found.' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const range = /bytes=(\d+)-(\d*)/.exec(
+        (config?.headers as Record<string, string>)?.['Range'] || ''
+      );
+      if (range) {
+        const start = Number(range[1]);
+        const end = range[2] ? Number(range[2]) : bytes.length - 1;
+        return new Response(bytes.slice(start, end + 1), {
+          status: 206,
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Content-Length': String(end - start + 1),
+            'Content-Range': `bytes ${start}-${end}/${bytes.length}`,
+          },
+        });
+      }
+
+      return new Response(bytes, {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Length': String(bytes.length),
+        },
+      });
+    });
+  }
+
+  it('should stream the file without altering its bytes', async () => {
+    const result = await pb.files.download(record, 'test.bin', { fetch: fileFetch() });
+
+    expect(result.status).toBe(200);
+    expect(result.contentType).toBe('application/octet-stream');
+    expect(result.contentLength).toBe(bytes.length);
+    expect(result.range).toBeNull();
+    expect(new Uint8Array(await new Response(result.body).arrayBuffer())).toEqual(bytes);
+  });
+
+  it('should request the specified byte range', async () => {
+    const result = await pb.files.download(record, 'test.bin', {
+      fetch: fileFetch(),
+      range: { start: 2, end: 4 },
+    });
+
+    expect(result.status).toBe(206);
+    expect(result.range).toEqual({ start: 2, end: 4, total: bytes.length });
+    expect(new Uint8Array(await new Response(result.body).arrayBuffer())).toEqual(
+      bytes.slice(2, 5)
+    );
+  });
+
+  it('should request a file token for protected files', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 3600;
+    pb.authStore.save(createToken({ exp }), null);
+
+    const fetchMock = fileFetch('file_token');
+    const result = await pb.files.download(record, 'test.bin', {
+      fetch: fetchMock,
+      thumb: '100x100',
+    });
+
+    expect(result.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(String(fetchMock.mock.calls[2][0])).toBe(
+      'http://127.0.0.1:8090/api/files/c1/r1/test.bin?thumb=100x100&token=file_token'
+    );
+  });
+
+  it('should not retry protected files for guests', async () => {
+    const fetchMock = fileFetch('file_token');
+
+    await expect(
+      pb.files.download(record, 'test.bin', { fetch: fetchMock })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should download backups with an auto requested token', async () => {
+    const fetchMock = fileFetch('file_token');
+    const result = await pb.backups.download('pb_backup.zip', { fetch: fetchMock });
+
+    expect(String(fetchMock.mock.calls[1][0])).toBe(
+      'http://127.0.0.1:8090/api/backups/pb_backup.zip?token=file_token'
+    );
+    expect(new Uint8Array(await new Response(result.body).arrayBuffer())).toEqual(bytes);
+  });
+
+  function stalledFetch() {
+    return vi.fn(async (_url: RequestInfo | URL, _config?: RequestInit) => {
+      // sends the first chunk and never completes the body
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(bytes);
+        },
+      });
+
+      return new Response(body, {
+        headers: { 'Content-Type': 'application/octet-stream' },
+      });
+    });
+  }
+
+  it('should abort the download while the body is being read', async () => {
+    const fetchMock = stalledFetch();
+    const controller = new AbortController();
+    const result = await pb.files.download(record, 'test.bin', {
+      fetch: fetchMock,
+      signal: controller.signal,
+    });
+
+    const reader = result.body.getReader();
+    expect((await reader.read()).value).toEqual(bytes);
+
+    controller.abort();
+
+    await expect(reader.read()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(true);
+  });
+
+  it('should cancel streamed responses with their request key', async () => {
+    const result = await pb.send<ReadableStream<Uint8Array>>('/api/test', {
+      fetch: stalledFetch(),
+      requestKey: 'stream',
+      responseType: 'stream',
+    });
+
+    const reader = result.getReader();
+    await reader.read();
+
+    pb.cancelRequest('stream');
+
+    await expect(reader.read()).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should not time out the body reading', async () => {
+    const fetchMock = vi.fn(async (_url: RequestInfo | URL, _config?: RequestInit) => {
+      // sends a chunk every 20ms
+      let sent = 0;
+      const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          if (sent < bytes.length) {
+            controller.enqueue(bytes.slice(sent, sent + 2));
+            sent += 2;
+          } else {
+            controller.close();
+          }
+        },
+      });
+
+      return new Response(body, {
+        headers: { 'Content-Type': 'application/octet-stream' },
+      });
+    });
+
+    const result = await pb.files.download(record, 'test.bin', {
+      fetch: fetchMock,
+      timeout: 30,
+    });
+
+    expect(new Uint8Array(await new Response(result.body).arrayBuffer())).toEqual(bytes);
+  });
+
+  it('should release the request signals once the body is read', async () => {
+    const controller = new AbortController();
+    const fetchMock = fileFetch();
+    const result = await pb.files.download(record, 'test.bin', {
+      fetch: fetchMock,
+      signal: controller.signal,
+    });
+
+    await new Response(result.body).arrayBuffer();
+    controller.abort();
+
+    expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(false);
+  });
+});
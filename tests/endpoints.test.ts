@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+
+describe('endpoints', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  const primary = 'http://primary.example.com';
+  const replica = 'http://replica.example.com';
+
+  // fetch mock with unreachable endpoints
+  function endpointsFetch(down: string[]) {
+    return vi.fn(async (url: RequestInfo | URL) => {
+      if (down.some((d) => String(url).startsWith(d))) {
+        throw new TypeError('Failed to fetch');
+      }
+      return new Response(JSON.stringify({ url: String(url) }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    });
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should fail over to the next endpoint', async () => {
+    const client = new PocketBase([primary, replica]);
+    const fetchMock = endpointsFetch([primary]);
+    const onChange = vi.fn();
+    client.endpoints.onChange(onChange);
+
+    const result = await client.send('/api/test', { fetch: fetchMock, query: { a: 1 } });
+
+    expect(result).toEqual({ url: `${replica}/api/test?a=1` });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenCalledWith(replica);
+    expect(client.baseURL).toBe(replica);
+    expect(client.buildURL('/api/realtime')).toBe(`${replica}/api/realtime`);
+    expect(
+      client.files.getURL(
+        { id: 'r1', collectionId: 'c1', collectionName: 'c', created: '', updated: '' },
+        'a.png'
+      )
+    ).toBe(`${replica}/api/files/c1/r1/a.png`);
+    expect(client.endpoints.status()[0]).toMatchObject({
+      url: primary,
+      healthy: false,
+      lastError: 'Failed to fetch',
+    });
+  });
+
+  it('should route the reads to the replica and the writes to the primary', async () => {
+    const client = new PocketBase([primary, replica], undefined, { routing: 'read-replica' });
+    const fetchMock = endpointsFetch([]);
+
+    await client.send('/api/test', { fetch: fetchMock });
+    await client.send('/api/test', { method: 'POST', fetch: fetchMock });
+
+    expect(fetchMock.mock.calls.map((c) => String(c[0]))).toEqual([
+      `${replica}/api/test`,
+      `${primary}/api/test`,
+    ]);
+    expect(client.baseURL).toBe(primary);
+  });
+
+  it('should probe the unhealthy endpoints with health checks', async () => {
+    const client = new PocketBase([primary, replica], undefined, { recoveryInterval: 0 });
+    const down = [primary];
+    const fetchMock = endpointsFetch(down);
+    vi.stubGlobal('fetch', fetchMock);
+
+    await client.send('/api/test');
+    expect(client.baseURL).toBe(replica);
+
+    down.length = 0;
+    await client.send('/api/test', { requestKey: null });
+    await vi.waitFor(() => expect(client.baseURL).toBe(primary));
+
+    expect(fetchMock.mock.calls.map((c) => String(c[0]))).toContain(`${primary}/api/health`);
+  });
+
+  it('should expose the endpoint that served the request', async () => {
+    const client = new PocketBase([primary, replica]);
+    const served: (string | undefined)[] = [];
+    client.use(async (request, next) => {
+      const result = await next(request);
+      served.push(result.endpoint);
+      return result;
+    });
+
+    await client.send('/api/test', { fetch: endpointsFetch([primary]) });
+
+    expect(served).toEqual([replica]);
+  });
+
+  it('should not fail over the non idempotent requests', async () => {
+    const client = new PocketBase([primary, replica]);
+    const fetchMock = endpointsFetch([primary]);
+
+    const err = await client
+      .send('/api/test', { method: 'POST', fetch: fetchMock })
+      .catch((e) => e);
+
+    expect(err.kind).toBe('network');
+    expect(err.endpoint).toBe(primary);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(client.endpoints.status()[0].healthy).toBe(false);
+  });
+
+  it('should fail over the opted in methods', async () => {
+    const client = new PocketBase([primary, replica], undefined, {
+      failoverMethods: ['GET', 'POST'],
+    });
+
+    const result = await client.send('/api/test', {
+      method: 'POST',
+      fetch: endpointsFetch([primary]),
+    });
+
+    expect(result).toEqual({ url: `${replica}/api/test` });
+    expect(client.clone().endpoints.failoverMethods).toEqual(['GET', 'POST']);
+  });
+
+  it('should report the endpoint in the instrumentation events', async () => {
+    const client = new PocketBase([primary, replica]);
+    const events: Array<{ type: string; endpoint?: string | null }> = [];
+    client.instrumentation.on((event) => events.push(event as never));
+
+    const fetchMock = vi.fn(async (url: RequestInfo | URL) => {
+      if (String(url).startsWith(primary)) {
+        throw new TypeError('Failed to fetch');
+      }
+      return new Response(JSON.stringify({ message: 'Missing.' }), {
+        status: String(url).includes('missing') ? 404 : 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    });
+
+    await client.send('/api/test', { fetch: fetchMock });
+    const err = await client.send('/api/missing', { fetch: fetchMock }).catch((e) => e);
+
+    expect(err.endpoint).toBe(replica);
+    expect(err.toJSON().endpoint).toBe(replica);
+    expect(
+      events.filter((e) => e.type !== 'request:start').map((e) => [e.type, e.endpoint])
+    ).toEqual([
+      ['request:response', replica],
+      ['request:error', replica],
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import {
+  ClientResponseError,
+  NotFoundError,
+  ValidationError,
+  NetworkError,
+  AbortedError,
+  TimeoutError,
+} from '../src/ClientResponseError';
+
+describe('typed errors', () => {
+  it('should create the error subclass matching the status', () => {
+    expect(ClientResponseError.fromError({ status: 404 })).toBeInstanceOf(NotFoundError);
+    expect(ClientResponseError.fromError({ status: 400 })).toBeInstanceOf(ValidationError);
+    expect(ClientResponseError.fromError({ isAbort: true })).toBeInstanceOf(AbortedError);
+    expect(ClientResponseError.fromError({ isTimeout: true })).toBeInstanceOf(TimeoutError);
+    expect(ClientResponseError.fromError(new TypeError('Failed to fetch'))).toBeInstanceOf(
+      NetworkError
+    );
+
+    const error = ClientResponseError.fromError({ status: 500 });
+    expect(error.constructor).toBe(ClientResponseError);
+    expect(error.kind).toBe('server');
+  });
+
+  it('should return the field errors', () => {
+    const error = ClientResponseError.fromError({
+      status: 400,
+      response: {
+        message: 'Failed to create record.',
+        data: {
+          title: { code: 'validation_required', message: 'Missing required value.' },
+          invalid: 'abc',
+        },
+      },
+    });
+
+    expect(error.fieldErrors()).toEqual({
+      title: { code: 'validation_required', message: 'Missing required value.' },
+    });
+    expect(error.is('validation')).toBe(true);
+    expect(error.is('validation_required')).toBe(true);
+    expect(error.is(400)).toBe(true);
+    expect(error.is('not_found')).toBe(false);
+  });
+
+  it('should round-trip through toJSON and fromError', () => {
+    const error = new NotFoundError({
+      url: 'http://example.com',
+      status: 404,
+      message: 'Missing',
+    });
+
+    const restored = ClientResponseError.fromError(JSON.parse(JSON.stringify(error)));
+
+    expect(restored).toBeInstanceOf(NotFoundError);
+    expect(restored.name).toBe('NotFoundError');
+    expect(restored.toJSON()).toEqual({ ...error.toJSON(), originalError: null });
+  });
+
+  it('should throw typed errors from send', async () => {
+    const pb = new PocketBase('http://127.0.0.1:8090');
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ message: 'Not found.' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    const err = await pb.send('/api/test', { fetch: fetchMock }).catch((e) => e);
+
+    expect(err).toBeInstanceOf(NotFoundError);
+    expect(err.kind).toBe('not_found');
+    expect(err.message).toBe('Not found.');
+  });
+
+  it('should not classify plain errors as network errors', () => {
+    const original = new Error('boom');
+    const error = ClientResponseError.fromError(original);
+
+    expect(error).not.toBeInstanceOf(NetworkError);
+    expect(error.kind).toBe('unknown');
+    expect(error.status).toBe(0);
+    expect(error.message).toBe('boom');
+    expect(error.originalError).toBe(original);
+  });
+
+  it('should wrap middleware errors with the unknown kind', async () => {
+    const pb = new PocketBase('http://127.0.0.1:8090');
+    const fetchMock = vi.fn();
+    const original = new Error('boom');
+    pb.use(async () => {
+      throw original;
+    });
+
+    const err = await pb
+      .send('/api/test', { fetch: fetchMock, retry: { maxAttempts: 3, baseDelay: 0 } })
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(ClientResponseError);
+    expect(err).not.toBeInstanceOf(NetworkError);
+    expect(err.kind).toBe('unknown');
+    expect(err.originalError).toBe(original);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should not retry errors thrown by a custom fetch', async () => {
+    const pb = new PocketBase('http://127.0.0.1:8090');
+    const fetchMock = vi.fn().mockRejectedValue(new RangeError('invalid'));
+
+    const err = await pb
+      .send('/api/test', { fetch: fetchMock, retry: { maxAttempts: 3, baseDelay: 0 } })
+      .catch((e) => e);
+
+    expect(err.kind).toBe('unknown');
+    expect(err.message).toBe('invalid');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseFilter,
+  stringifyFilter,
+  formatFilter,
+  validateFilter,
+  lintCollectionRules,
+  FilterSyntaxError,
+} from '../src/tools/filterParser';
+import type { CollectionModel } from '../src/types';
+
+describe('filter parser', () => {
+  const posts = {
+    id: 'posts_id',
+    name: 'posts',
+    type: 'base',
+    schema: [
+      { name: 'title', type: 'text', options: {} },
+      { name: 'views', type: 'number', options: {} },
+      { name: 'featured', type: 'bool', options: {} },
+      { name: 'published', type: 'date', options: {} },
+      { name: 'tags', type: 'select', options: { maxSelect: 5 } },
+      { name: 'meta', type: 'json', options: {} },
+      { name: 'author', type: 'relation', options: { collectionId: 'users_id', maxSelect: 1 } },
+    ],
+    listRule: "@request.auth.id != '' && author.nme = 'x'",
+    viewRule: '',
+    createRule: null,
+    updateRule: '@request.body.title:changed = false && views > 0',
+    deleteRule: 'views = true',
+  } as unknown as CollectionModel;
+
+  const users = {
+    id: 'users_id',
+    name: 'users',
+    type: 'auth',
+    schema: [{ name: 'name', type: 'text', options: {} }],
+  } as unknown as CollectionModel;
+
+  it('should parse the expression into an AST with positions', () => {
+    const node = parseFilter("title ~ 'a' && (views > -1.5 || tags:length >= 2)");
+
+    expect(node).toEqual({
+      type: 'logical',
+      op: '&&',
+      start: 0,
+      end: 48,
+      items: [
+        {
+          type: 'comparison',
+          op: '~',
+          start: 0,
+          end: 11,
+          left: { type: 'identifier', name: 'title', modifier: null, start: 0, end: 5 },
+          right: { type: 'literal', value: 'a', start: 8, end: 11 },
+        },
+        {
+          type: 'logical',
+          op: '||',
+          start: 16,
+          end: 48,
+          items: [
+            expect.objectContaining({ op: '>', right: expect.objectContaining({ value: -1.5 }) }),
+            expect.objectContaining({
+              op: '>=',
+              left: expect.objectContaining({ name: 'tags', modifier: 'length' }),
+            }),
+          ],
+        },
+      ],
+    });
+
+    expect(parseFilter('  // only a comment\n ')).toBeNull();
+  });
+
+  it('should report the syntax errors with their position', () => {
+    const cases: Array<[string, string, number, number]> = [
+      ["title = 'a' &&", 'Expected value at 1:15.', 1, 15],
+      ['(title = 1', 'Missing closing parenthesis at 1:11.', 1, 11],
+      ["title\n  = 'a", 'Unterminated string at 2:5.', 2, 5],
+      ['title views', 'Expected comparison operator at 1:7.', 1, 7],
+      ['title = 1 #', 'Unexpected character "#" at 1:11.', 1, 11],
+      ['title = 1)', 'Unexpected ")" at 1:10.', 1, 10],
+    ];
+
+    for (const [expr, message, line, column] of cases) {
+      const err = (() => {
+        try {
+          parseFilter(expr);
+        } catch (e) {
+          return e as FilterSyntaxError;
+        }
+      })();
+
+      expect(err).toBeInstanceOf(FilterSyntaxError);
+      expect(err?.message).toBe(message);
+      expect([err?.line, err?.column]).toEqual([line, column]);
+    }
+  });
+
+  it('should normalize and pretty print the expression', () => {
+    const expr = `(a = "it's" && (b ?!= 1)) || (c=true||d:lower ~ null) && @request.auth.id != ''`;
+
+    expect(formatFilter(expr)).toBe(
+      "a = 'it\\'s' && b ?!= 1 || (c = true || d:lower ~ null) && @request.auth.id != ''"
+    );
+    expect(formatFilter('a = 1 && (b = 2 || c = 3)', { pretty: true })).toBe(
+      'a = 1\n&& (\n  b = 2\n  || c = 3\n)'
+    );
+    expect(stringifyFilter(parseFilter(formatFilter(expr)))).toBe(formatFilter(expr));
+  });
+
+  it('should keep the backslashes of the string literals', () => {
+    const expr = `path ~ 'C:\\dir' && name = "a\\"b" && note = 'it\\'s'`;
+
+    expect(parseFilter("path ~ 'C:\\dir'")).toMatchObject({ right: { value: 'C:\\dir' } });
+    expect(formatFilter(expr)).toBe(`path ~ 'C:\\dir' && name = 'a"b' && note = 'it\\'s'`);
+    expect(formatFilter(formatFilter(expr))).toBe(formatFilter(expr));
+  });
+
+  it('should validate the fields, modifiers and types against the schema', () => {
+    const expr =
+      "titel = 'a' && views = 'abc' && featured = 1 && published > @now && " +
+      "published < 'yesterday' && title:length > 1 && tags:length > 1 && " +
+      "author.name = 'x' && author.nme = 'x' && title.x = 1 && meta.a.b = 1 && " +
+      "tags:each = 'a' && @foo = 1 && title:isset = true && views = ''";
+
+    const issues = validateFilter(expr, posts, { collections: [posts, users] });
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Unknown field "titel" in collection "posts".',
+      'Type mismatch: number "views" compared with \'abc\'.',
+      'Type mismatch: bool "featured" compared with 1.',
+      'Type mismatch: date "published" compared with \'yesterday\'.',
+      'The :length modifier requires a multiple value field ("title").',
+      'Unknown field "nme" in collection "users".',
+      'Field "title" has no nested fields.',
+      'Unknown macro "@foo".',
+      'The :isset modifier is allowed only for @request fields in API rules.',
+    ]);
+    expect(expr.slice(issues[0].start, issues[0].end)).toBe('titel');
+    expect(expr.slice(issues[1].start, issues[1].end)).toBe("'abc'");
+
+    expect(validateFilter('title = (', posts)).toEqual([
+      { message: 'Unexpected "(" at 1:9.', start: 8, end: 9 },
+    ]);
+  });
+
+  it('should lint the collection API rules', () => {
+    const result = lintCollectionRules(posts, { collections: [posts, users] });
+
+    expect(Object.keys(result)).toEqual(['listRule', 'deleteRule']);
+    expect(result.listRule?.[0].message).toBe('Unknown field "nme" in collection "users".');
+    expect(result.deleteRule?.[0].message).toBe('Type mismatch: number "views" compared with true.');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import type { InstrumentationEvent } from '../src/tools/instrumentation';
+import { query } from '../src/tools/query';
+
+describe('getFullList concurrency', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  // paginated list endpoint with 7 items where the earlier pages respond slower
+  function slowListFetch(failures: Record<number, number> = {}) {
+    let active = 0;
+    const state = { maxActive: 0 };
+
+    const fetchMock = vi.fn(async (url: RequestInfo | URL, config?: RequestInit) => {
+      const query = new URL(String(url)).searchParams;
+      const page = Number(query.get('page'));
+      const perPage = Number(query.get('perPage'));
+      const all = [1, 2, 3, 4, 5, 6, 7].map((n) => ({ id: `r${n}` }));
+
+      active++;
+      state.maxActive = Math.max(state.maxActive, active);
+
+      try {
+        await new Promise<void>((resolve, reject) => {
+          setTimeout(resolve, (10 - page) * 5);
+          config?.signal?.addEventListener('abort', () => {
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+          });
+        });
+      } finally {
+        active--;
+      }
+
+      if (failures[page]) {
+        failures[page]--;
+        return new Response(JSON.stringify({ message: 'unavailable' }), { status: 503 });
+      }
+
+      return new Response(
+        JSON.stringify({
+          page,
+          perPage,
+          totalItems: all.length,
+          totalPages: Math.ceil(all.length / perPage),
+          items: all.slice((page - 1) * perPage, page * perPage),
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    });
+
+    return { fetchMock, state };
+  }
+
+  it('should fetch the remaining pages concurrently in order', async () => {
+    const { fetchMock, state } = slowListFetch();
+
+    const items = await pb
+      .collection('posts')
+      .getFullList({ fetch: fetchMock, batch: 1, concurrency: 3 });
+
+    expect(items.map((item) => item.id)).toEqual(['r1', 'r2', 'r3', 'r4', 'r5', 'r6', 'r7']);
+    expect(fetchMock).toHaveBeenCalledTimes(7);
+    expect(state.maxActive).toBe(3);
+    expect(String(fetchMock.mock.calls[0][0])).not.toContain('concurrency');
+  });
+
+  it('should fetch the pages sequentially by default', async () => {
+    const { fetchMock, state } = slowListFetch();
+
+    const items = await pb.collection('posts').getFullList({ fetch: fetchMock, batch: 2 });
+
+    expect(items).toHaveLength(7);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(state.maxActive).toBe(1);
+  });
+
+  it('should retry the failed pages', async () => {
+    const { fetchMock } = slowListFetch({ 3: 1 });
+
+    const items = await pb
+      .collection('posts')
+      .getFullList({ fetch: fetchMock, batch: 2, concurrency: 2 });
+
+    expect(items.map((item) => item.id)).toEqual(['r1', 'r2', 'r3', 'r4', 'r5', 'r6', 'r7']);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('should abort the remaining pages on a permanent failure', async () => {
+    const { fetchMock } = slowListFetch({ 2: 1 });
+    const events: InstrumentationEvent[] = [];
+    pb.instrumentation.on((e) => events.push(e));
+
+    const err = await pb
+      .collection('posts')
+      .getFullList({ fetch: fetchMock, batch: 1, concurrency: 2, retry: false })
+      .catch((e) => e);
+
+    expect(err.status).toBe(503);
+    expect(fetchMock.mock.calls.length).toBeLessThan(7);
+    await vi.waitFor(() => expect(events.map((e) => e.type)).toContain('request:abort'));
+  });
+});
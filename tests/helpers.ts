@@ -0,0 +1,52 @@
+import { vi } from 'vitest';
+
+/**
+ * Creates a JSON response with the specified status, body and extra headers.
+ */
+export function jsonResponse(
+  status: number,
+  body: unknown = {},
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Creates a fetch mock that never resolves unless its signal gets aborted.
+ */
+export function hangingFetch() {
+  return vi.fn((_url: RequestInfo | URL, config?: RequestInit) => {
+    return new Promise<Response>((_, reject) => {
+      config?.signal?.addEventListener('abort', () => {
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      });
+    });
+  });
+}
+
+/**
+ * Creates an unsigned JWT with the specified payload.
+ */
+export function createToken(payload: Record<string, unknown>): string {
+  const encode = (data: unknown) => Buffer.from(JSON.stringify(data)).toString('base64url');
+  return `${encode({ alg: 'HS256' })}.${encode(payload)}.sig`;
+}
+
+/**
+ * Creates a fetch mock that resolves with an empty list after 5ms
+ * (or rejects when its signal gets aborted before that).
+ */
+export function delayedFetch() {
+  return vi.fn(
+    (_url: RequestInfo | URL, config?: RequestInit) =>
+      new Promise<Response>((resolve, reject) => {
+        config?.signal?.addEventListener('abort', () => {
+          reject(new DOMException('The operation was aborted.', 'AbortError'));
+        });
+        setTimeout(() => resolve(jsonResponse(200, { items: [] })), 5);
+      })
+  );
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { ClientMetrics } from '../src/tools/metrics';
+import type { InstrumentationEvent } from '../src/tools/instrumentation';
+import { jsonResponse } from './helpers';
+
+describe('instrumentation', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  it('should emit the request lifecycle events', async () => {
+    const events: InstrumentationEvent[] = [];
+    const remove = pb.instrumentation.on((e) => events.push(e));
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(503))
+      .mockResolvedValueOnce(jsonResponse(200))
+      .mockResolvedValueOnce(jsonResponse(404));
+
+    await pb.send('/api/a', { fetch: fetchMock, retry: { maxAttempts: 2, baseDelay: 0 } });
+    await pb.send('/api/b', { fetch: fetchMock, requestKey: 'b' }).catch(() => null);
+
+    const controller = new AbortController();
+    controller.abort();
+    await pb.send('/api/c', { fetch: fetchMock, signal: controller.signal }).catch(() => null);
+
+    expect(events.map((e) => e.type)).toEqual([
+      'request:start',
+      'request:retry',
+      'request:response',
+      'request:start',
+      'request:error',
+      'request:start',
+      'request:abort',
+    ]);
+    expect(events[1]).toMatchObject({ attempt: 1, status: 503, requestKey: 'GET /api/a' });
+    expect(events[2]).toMatchObject({ method: 'GET', path: '/api/a', status: 200 });
+    expect(events[4]).toMatchObject({ requestKey: 'b', status: 404, kind: 'not_found' });
+    expect(events[6]).toMatchObject({ isTimeout: false });
+    expect((events[2] as { duration: number }).duration).toBeGreaterThanOrEqual(0);
+
+    remove();
+    await pb.send('/api/d', { fetch: vi.fn().mockResolvedValue(jsonResponse(200)) });
+    expect(events).toHaveLength(7);
+  });
+
+  it('should not fail the request on listener errors', async () => {
+    pb.instrumentation.on(() => {
+      throw new Error('listener error');
+    });
+
+    const result = await pb.send('/api/a', {
+      fetch: vi.fn().mockResolvedValue(jsonResponse(200, { ok: true })),
+    });
+    expect(result).toEqual({ ok: true });
+  });
+
+  it('should aggregate the events per route', async () => {
+    const metrics = new ClientMetrics({ buckets: [100, 1000] });
+    pb.instrumentation.on(metrics.listener);
+
+    const fetchMock = vi.fn(async (url: RequestInfo | URL) =>
+      jsonResponse(String(url).includes('missing') ? 404 : 200, { id: 'a' })
+    );
+
+    await pb.collection('posts').getOne('a1', { fetch: fetchMock });
+    await pb.collection('posts').getOne('a2', { fetch: fetchMock });
+    await pb.collection('posts').getOne('missing', { fetch: fetchMock }).catch(() => null);
+
+    const [route] = metrics.snapshot().routes;
+    expect(route).toMatchObject({
+      method: 'GET',
+      route: '/api/collections/posts/records/:id',
+      requests: 3,
+      errors: 1,
+      inFlight: 0,
+      statuses: { '200': 2, '404': 1 },
+    });
+    expect(route.latency.count).toBe(3);
+    expect(route.latency.buckets.map((b) => b.le)).toEqual([100, 1000, Infinity]);
+
+    const text = metrics.toPrometheus();
+    expect(text).toContain(
+      'pocketbase_client_requests_total{method="GET",route="/api/collections/posts/records/:id",status="200"} 2'
+    );
+    expect(text).toContain(
+      'pocketbase_client_request_duration_ms_bucket{method="GET",route="/api/collections/posts/records/:id",le="+Inf"} 3'
+    );
+    expect(text).toContain('# TYPE pocketbase_client_request_duration_ms histogram');
+
+    metrics.reset();
+    expect(metrics.snapshot().routes).toEqual([]);
+  });
+});
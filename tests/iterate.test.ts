@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import type { InstrumentationEvent } from '../src/tools/instrumentation';
+import { query } from '../src/tools/query';
+
+describe('iterate', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  // paginated list endpoint with 5 items
+  function listFetch(skipTotal = false) {
+    return vi.fn(async (url: RequestInfo | URL, config?: RequestInit) => {
+      const query = new URL(String(url)).searchParams;
+      const page = Number(query.get('page'));
+      const perPage = Number(query.get('perPage'));
+      const all = [1, 2, 3, 4, 5].map((n) => ({ id: `r${n}` }));
+
+      // the next pages never resolve unless aborted
+      if (query.get('hang') && page > 1) {
+        return new Promise<Response>((_, reject) => {
+          config?.signal?.addEventListener('abort', () => {
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+          });
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          page,
+          perPage,
+          totalItems: skipTotal ? -1 : all.length,
+          totalPages: skipTotal ? -1 : Math.ceil(all.length / perPage),
+          items: all.slice((page - 1) * perPage, page * perPage),
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    });
+  }
+
+  it('should iterate over all items page by page', async () => {
+    const fetchMock = listFetch();
+    const progress: unknown[] = [];
+
+    const ids: string[] = [];
+    for await (const record of pb.collection('posts').iterate({
+      fetch: fetchMock,
+      batch: 2,
+      filter: 'active = true',
+      onProgress: (p) => progress.push(p),
+    })) {
+      ids.push(record.id);
+    }
+
+    expect(ids).toEqual(['r1', 'r2', 'r3', 'r4', 'r5']);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(new URL(String(fetchMock.mock.calls[0][0])).searchParams.get('filter')).toBe(
+      'active = true'
+    );
+    expect(String(fetchMock.mock.calls[0][0])).not.toContain('onProgress');
+    expect(progress).toEqual([
+      { page: 1, loaded: 2, totalItems: 5 },
+      { page: 2, loaded: 4, totalItems: 5 },
+      { page: 3, loaded: 5, totalItems: 5 },
+    ]);
+  });
+
+  it('should stop on a short or empty page with skipTotal', async () => {
+    const fetchMock = listFetch(true);
+
+    const pages: number[] = [];
+    for await (const list of pb.collections.iteratePages({
+      fetch: fetchMock,
+      batch: 5,
+      skipTotal: true,
+    })) {
+      pages.push(list.items.length);
+    }
+
+    // the second (empty) page is fetched but not yielded
+    expect(pages).toEqual([5]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should abort the pending page on break', async () => {
+    const fetchMock = listFetch();
+    const events: InstrumentationEvent[] = [];
+    pb.instrumentation.on((e) => events.push(e));
+
+    for await (const list of pb.collection('posts').iteratePages({
+      fetch: fetchMock,
+      batch: 2,
+      query: { hang: 1 },
+    })) {
+      expect(list.items).toHaveLength(2);
+      break;
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.waitFor(() => expect(events.map((e) => e.type)).toContain('request:abort'));
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+
+describe('limiter', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  it('should cap the concurrent requests and dequeue them by priority', async () => {
+    pb = new PocketBase('http://127.0.0.1:8090', undefined, {
+      maxConcurrentRequests: 1,
+    });
+
+    const order: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetchMock = vi.fn(async (url: RequestInfo | URL) => {
+      order.push(String(url).split('/').pop() as string);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((r) => setTimeout(r, 5));
+      inFlight--;
+      return new Response(null, { status: 204 });
+    });
+
+    await Promise.all([
+      pb.send('/api/first', { fetch: fetchMock }),
+      pb.send('/api/low', { fetch: fetchMock, priority: 'low' }),
+      pb.send('/api/normal', { fetch: fetchMock }),
+      pb.send('/api/high', { fetch: fetchMock, priority: 'high' }),
+    ]);
+
+    expect(maxInFlight).toBe(1);
+    expect(order).toEqual(['first', 'high', 'normal', 'low']);
+
+    const stats = pb.limiter.stats();
+    expect(stats.active).toBe(0);
+    expect(stats.queued).toBe(0);
+    expect(stats.totalQueued).toBe(3);
+    expect(stats.maxWaitTime).toBeGreaterThan(0);
+  });
+
+  it('should reject queued requests that get cancelled', async () => {
+    pb.limiter.maxConcurrent = 1;
+    const fetchMock = vi.fn(
+      () =>
+        new Promise<Response>((r) =>
+          setTimeout(() => r(new Response(null, { status: 204 })), 5)
+        )
+    );
+
+    const first = pb.send('/api/a', { fetch: fetchMock });
+    const second = pb.send('/api/b', { fetch: fetchMock, requestKey: 'b' });
+    await Promise.resolve();
+    pb.cancelRequest('b');
+
+    expect((await second.catch((e) => e)).isAbort).toBe(true);
+    await first;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(pb.limiter.stats().queued).toBe(0);
+  });
+});
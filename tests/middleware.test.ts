@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { ClientResponseError } from '../src/ClientResponseError';
+
+describe('middlewares', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  function okFetch(body: unknown = { ok: true }) {
+    return vi.fn(
+      async () =>
+        new Response(JSON.stringify(body), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        })
+    );
+  }
+
+  it('should run middlewares in registration order', async () => {
+    const calls: string[] = [];
+    pb.use(async (req, next) => {
+      calls.push('a:before');
+      const res = await next(req);
+      calls.push('a:after');
+      return res;
+    });
+    pb.use(async (req, next) => {
+      calls.push('b:before');
+      const res = await next(req);
+      calls.push('b:after');
+      return res;
+    });
+
+    await pb.send('/api/test', { fetch: okFetch() });
+
+    expect(calls).toEqual(['a:before', 'b:before', 'b:after', 'a:after']);
+  });
+
+  it('should allow modifying the request and the response', async () => {
+    const fetchMock = okFetch({ items: [1, 2] });
+    pb.use(async (req, next) => {
+      (req.init.headers as Record<string, string>)['X-Tenant'] = 'acme';
+      const res = await next(req);
+      res.data = (res.data as { items: number[] }).items;
+      return res;
+    });
+
+    const result = await pb.send('/api/test', { fetch: fetchMock });
+
+    expect(result).toEqual([1, 2]);
+    expect(fetchMock.mock.calls[0][1]?.headers).toMatchObject({ 'X-Tenant': 'acme' });
+  });
+
+  it('should allow short-circuiting the request', async () => {
+    const fetchMock = okFetch();
+    pb.use(async () => ({ response: new Response(null, { status: 200 }), data: 'cached' }));
+
+    await expect(pb.send('/api/test', { fetch: fetchMock })).resolves.toBe('cached');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should throw for non 2xx responses returned by the chain', async () => {
+    pb.use(async () => ({ response: new Response(null, { status: 404 }), data: {} }));
+
+    const err = await pb.send('/api/test').catch((e) => e);
+
+    expect(err).toBeInstanceOf(ClientResponseError);
+    expect(err.status).toBe(404);
+  });
+
+  it('should be removable', async () => {
+    const middleware = vi.fn((req, next) => next(req));
+    const remove = pb.use(middleware);
+    remove();
+
+    await pb.send('/api/test', { fetch: okFetch() });
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it('should keep supporting the beforeSend and afterSend hooks', async () => {
+    const fetchMock = okFetch({ value: 1 });
+    pb.beforeSend = (url, options) => ({ url: url + '?hook=1', options });
+    pb.afterSend = (_, data) => ({ ...(data as object), hooked: true });
+
+    const result = await pb.send('/api/test', { fetch: fetchMock });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:8090/api/test?hook=1');
+    expect(result).toEqual({ value: 1, hooked: true });
+  });
+});
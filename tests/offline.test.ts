@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { ClientResponseError } from '../src/ClientResponseError';
+import { MemoryQueueStorage } from '../src/offline';
+import type { QueuedMutation } from '../src/offline';
+import { jsonResponse } from './helpers';
+
+describe('OfflineQueue', () => {
+  let pb: PocketBase;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let storage: MemoryQueueStorage;
+
+  beforeEach(async () => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+    fetchMock = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    vi.stubGlobal('fetch', fetchMock);
+    storage = new MemoryQueueStorage();
+    await pb.offline.enable({ storage });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should queue mutations that fail because of a network error', async () => {
+    const err = await pb
+      .collection('posts')
+      .create({ title: 'test' })
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(ClientResponseError);
+    expect(err.response.queuedId).toBeDefined();
+    expect(pb.offline.size).toBe(1);
+    expect(pb.offline.items[0]).toMatchObject({
+      method: 'POST',
+      path: '/api/collections/posts/records',
+      body: { title: 'test' },
+      status: 'queued',
+    });
+    expect(JSON.parse(storage.load() as string)).toHaveLength(1);
+  });
+
+  it('should not queue read requests', async () => {
+    await expect(pb.collection('posts').getOne('a')).rejects.toThrow();
+
+    expect(pb.offline.size).toBe(0);
+  });
+
+  it('should replay the queued mutations in order', async () => {
+    await pb.collection('posts').create({ title: 'a' }).catch(() => null);
+    await pb.collection('posts').update('b', { title: 'b' }).catch(() => null);
+    await pb.collection('posts').delete('c').catch(() => null);
+
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 'x' }));
+    const statuses: string[] = [];
+    pb.offline.onStatusChange((item) => statuses.push(`${item.method}:${item.status}`));
+
+    await pb.offline.replay();
+
+    expect(fetchMock.mock.calls.slice(-3).map((c) => c[1].method)).toEqual([
+      'POST',
+      'PATCH',
+      'DELETE',
+    ]);
+    expect(statuses).toEqual([
+      'POST:replaying',
+      'POST:succeeded',
+      'PATCH:replaying',
+      'PATCH:succeeded',
+      'DELETE:replaying',
+      'DELETE:succeeded',
+    ]);
+    expect(pb.offline.size).toBe(0);
+  });
+
+  it('should stop the replay on network failures', async () => {
+    await pb.collection('posts').create({ title: 'a' }).catch(() => null);
+    await pb.collection('posts').create({ title: 'b' }).catch(() => null);
+
+    await pb.offline.replay();
+
+    expect(pb.offline.size).toBe(2);
+    // the second create replayed the first item before being queued
+    expect(pb.offline.items[0].attempts).toBe(2);
+    expect(pb.offline.items[1].attempts).toBe(0);
+  });
+
+  it('should replay the queue before sending new mutations', async () => {
+    await pb.collection('posts').create({ title: 'a' }).catch(() => null);
+
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 'x' }));
+    await pb.collection('posts').create({ title: 'b' });
+
+    expect(fetchMock.mock.calls.slice(-2).map((c) => c[1].body)).toEqual([
+      JSON.stringify({ title: 'a' }),
+      JSON.stringify({ title: 'b' }),
+    ]);
+    expect(pb.offline.size).toBe(0);
+  });
+
+  it('should queue new mutations behind the items that failed to replay', async () => {
+    await pb.collection('posts').create({ title: 'a' }).catch(() => null);
+
+    fetchMock.mockClear();
+    const err = await pb
+      .collection('posts')
+      .update('b', { title: 'b' })
+      .catch((e) => e);
+
+    expect(err.response.queuedId).toBeDefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(pb.offline.items.map((item) => item.method)).toEqual(['POST', 'PATCH']);
+  });
+
+  it('should not persist the Authorization header', async () => {
+    pb.authStore.save('old_token', null);
+    await pb
+      .collection('posts')
+      .create({ title: 'a' }, { headers: { Authorization: 'custom_token', 'X-Tenant': 't1' } })
+      .catch(() => null);
+
+    expect(pb.offline.items[0].headers).toEqual({ 'X-Tenant': 't1' });
+    expect(storage.load()).not.toContain('token');
+
+    pb.authStore.save('new_token', null);
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 'x' }));
+    await pb.offline.replay();
+
+    expect(fetchMock.mock.calls.at(-1)?.[1].headers).toMatchObject({
+      Authorization: 'new_token',
+      'X-Tenant': 't1',
+    });
+  });
+
+  it('should invoke the conflict hook for 4xx replays', async () => {
+    const onConflict = vi.fn(
+      (_item: QueuedMutation, _err: ClientResponseError) => 'drop' as const
+    );
+    await pb.offline.enable({ storage, onConflict });
+    await pb.collection('posts').create({ title: 'a' }).catch(() => null);
+    await pb.collection('posts').create({ title: 'b' }).catch(() => null);
+
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(400, { message: 'Invalid' }))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 'x' }));
+
+    await pb.offline.replay();
+
+    expect(onConflict).toHaveBeenCalledTimes(1);
+    expect(onConflict.mock.calls[0][0].body).toEqual({ title: 'a' });
+    expect(onConflict.mock.calls[0][1].status).toBe(400);
+    expect(pb.offline.size).toBe(0);
+  });
+
+  it('should restore the persisted queue', async () => {
+    await pb.collection('posts').create({ title: 'a' }).catch(() => null);
+
+    const other = new PocketBase('http://127.0.0.1:8090');
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 'x' }));
+    await other.offline.enable({ storage });
+
+    expect(other.offline.size).toBe(0);
+    expect(fetchMock.mock.calls.at(-1)?.[1].body).toBe(JSON.stringify({ title: 'a' }));
+  });
+});
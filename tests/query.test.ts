@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { filter } from '../src/tools/filter';
+import { q, query } from '../src/tools/query';
+import type { FilterOperator } from '../src/tools/query';
+
+describe('query builder', () => {
+  interface Post {
+    id: string;
+    title: string;
+    status: string;
+    tags: string[];
+    views: number;
+    created: string;
+  }
+
+  const qp = query<Post>();
+
+  it('should compile to the same escaped string as filter()', () => {
+    const date = new Date('2024-01-02T03:04:05.000Z');
+
+    const expr = qp.and(
+      qp.eq('status', "it's active"),
+      qp.gt('created', date),
+      qp.anyLike('tags', 'x'),
+      qp.eq('views', null)
+    );
+
+    expect(expr.toString()).toBe(
+      filter('status = {:a} && created > {:b} && tags ?~ {:c} && views = {:d}', {
+        a: "it's active",
+        b: date,
+        c: 'x',
+        d: null,
+      })
+    );
+  });
+
+  it('should support all operators, modifiers and references', () => {
+    const exprs = [
+      qp.eq('views', 1),
+      qp.neq('views', 1),
+      qp.gt('views', 1),
+      qp.gte('views', 1),
+      qp.lt('views', 1),
+      qp.lte('views', 1),
+      qp.like('title', 'a'),
+      qp.notLike('title', 'a'),
+      qp.anyEq('tags', 'a'),
+      qp.anyNeq('tags', 'a'),
+      qp.anyGt('tags', 'a'),
+      qp.anyGte('tags', 'a'),
+      qp.anyLt('tags', 'a'),
+      qp.anyLte('tags', 'a'),
+      qp.anyLike('tags', 'a'),
+      qp.anyNotLike('tags', 'a'),
+    ];
+
+    expect(exprs.map((expr) => expr.toString().split(' ')[1]).join(' ')).toBe(
+      '= != > >= < <= ~ !~ ?= ?!= ?> ?>= ?< ?<= ?~ ?!~'
+    );
+
+    expect(qp.gt('tags:length', 2).toString()).toBe('tags:length > 2');
+    expect(qp.lt('created', qp.ref('@now')).toString()).toBe('created < @now');
+    expect(qp.eq('status', qp.ref('title')).toString()).toBe('status = title');
+  });
+
+  it('should group the nested expressions', () => {
+    const expr = q.or(
+      q.and(q.eq('a', 1), q.or(q.eq('b', 2), q.eq('c', 3))),
+      q.eq('d', true),
+      q.and(),
+      q.raw('e = {:e} || f = 1', { e: 'x' })
+    );
+
+    expect(expr.toString()).toBe("(a = 1 && (b = 2 || c = 3)) || d = true || (e = 'x' || f = 1)");
+    expect(q.and(q.eq('a', 1)).toString()).toBe('a = 1');
+    expect(q.and(q.or()).isEmpty).toBe(true);
+  });
+
+  it('should negate the expressions', () => {
+    const expr = q.not(q.and(q.eq('a', 1), q.or(q.like('b', 'x'), q.anyEq('tags', 'y'))));
+
+    expect(expr.toString()).toBe("a != 1 || (b !~ 'x' && tags != 'y')");
+    expect(q.gte('a', 1).not().not().toString()).toBe('a >= 1');
+    expect(() => q.raw('a = 1').not()).toThrow("can't be negated");
+  });
+
+  it('should reject invalid identifiers and operators', () => {
+    expect(() => q.eq('a = 1 || b', 1)).toThrow('Invalid filter identifier');
+    expect(() => q.ref('@now) || true')).toThrow('Invalid filter identifier');
+    expect(() => q.cmp('a', '==' as FilterOperator, 1)).toThrow('Invalid filter operator');
+  });
+});
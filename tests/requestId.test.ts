@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import type { InstrumentationEvent } from '../src/tools/instrumentation';
+
+describe('requestIdHeader', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  it('should not send a correlation id by default', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+
+    await pb.send('/api/a', { fetch: fetchMock });
+
+    expect(Object.keys(fetchMock.mock.calls[0][1].headers)).not.toContain('X-Request-Id');
+  });
+
+  it('should attach and surface the correlation id', async () => {
+    const client = new PocketBase('http://127.0.0.1:8090', undefined, {
+      requestIdHeader: 'X-Request-Id',
+    });
+    const events: InstrumentationEvent[] = [];
+    client.instrumentation.on((e) => events.push(e));
+
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ message: 'Failed.' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    const err = await client.send('/api/a', { fetch: fetchMock }).catch((e) => e);
+    const sentId = fetchMock.mock.calls[0][1].headers['X-Request-Id'];
+
+    expect(sentId).toMatch(/^[0-9a-f-]{32,36}$/);
+    expect(err.requestId).toBe(sentId);
+    expect(err.toJSON().requestId).toBe(sentId);
+    expect(events.map((e) => (e as { requestId: string }).requestId)).toEqual([
+      sentId,
+      sentId,
+    ]);
+
+    const networkErr = await client
+      .send('/api/b', { fetch: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')) })
+      .catch((e) => e);
+    expect(networkErr.requestId).toBeTruthy();
+    expect(networkErr.requestId).not.toBe(sentId);
+
+    // explicit ids are preserved
+    await client.send('/api/c', { fetch: fetchMock, headers: { 'X-Request-Id': 'custom' } })
+      .catch(() => null);
+    expect(fetchMock.mock.calls[1][1].headers['X-Request-Id']).toBe('custom');
+  });
+
+  it('should find the logs by request id', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ items: [{ id: 'log1' }] }), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    const logs = await pb.logs.findByRequestId("abc'123", {
+      fetch: fetchMock,
+      filter: 'level > 0',
+    });
+
+    expect(logs).toEqual([{ id: 'log1' }]);
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.pathname).toBe('/api/logs');
+    expect(url.searchParams.get('filter')).toBe(
+      "(level > 0) && data.requestId = 'abc\\'123'"
+    );
+    expect(url.searchParams.get('sort')).toBe('-created');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { ClientResponseError } from '../src/ClientResponseError';
+import { jsonResponse } from './helpers';
+
+describe('retry', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  it('should not retry by default', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(503));
+
+    await expect(pb.send('/api/test', { fetch: fetchMock })).rejects.toThrow(
+      ClientResponseError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry retryable statuses for idempotent methods', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(503))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    const result = await pb.send('/api/test', {
+      fetch: fetchMock,
+      retry: { maxAttempts: 3, baseDelay: 0 },
+    });
+
+    expect(result).toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry network failures using the client policy', async () => {
+    pb.retry = { maxAttempts: 2, baseDelay: 0 };
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    await expect(pb.send('/api/test', { fetch: fetchMock })).resolves.toEqual({
+      ok: true,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry non-idempotent methods', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(500));
+
+    await expect(
+      pb.send('/api/test', {
+        method: 'POST',
+        fetch: fetchMock,
+        retry: { maxAttempts: 3, baseDelay: 0 },
+      })
+    ).rejects.toThrow(ClientResponseError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should respect the Retry-After header', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    const promise = pb.send('/api/test', {
+      fetch: fetchMock,
+      retry: { maxAttempts: 2, baseDelay: 0 },
+    });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it('should not retry cancelled requests', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(503));
+
+    const promise = pb.send('/api/test', {
+      fetch: fetchMock,
+      requestKey: 'test',
+      retry: { maxAttempts: 5, baseDelay: 1000 },
+    });
+    await Promise.resolve();
+    await Promise.resolve();
+    pb.cancelRequest('test');
+
+    const err = await promise.catch((e) => e);
+    expect(err).toBeInstanceOf(ClientResponseError);
+    expect(err.isAbort).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { hangingFetch } from './helpers';
+
+describe('signals', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  it('should abort on either the caller signal or the requestKey cancellation', async () => {
+    const controller = new AbortController();
+    const first = pb.send('/api/a', {
+      fetch: hangingFetch(),
+      requestKey: 'a',
+      signal: new AbortController().signal,
+    });
+    const second = pb.send('/api/b', {
+      fetch: hangingFetch(),
+      requestKey: 'b',
+      signal: controller.signal,
+    });
+
+    pb.cancelRequest('a');
+    controller.abort();
+
+    expect((await first.catch((e) => e)).isAbort).toBe(true);
+    expect((await second.catch((e) => e)).isAbort).toBe(true);
+  });
+
+  it('should not send the signal as query parameter', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ items: [] }), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    await pb.collection('posts').getList(1, 20, {
+      fetch: fetchMock,
+      signal: new AbortController().signal,
+    });
+
+    expect(fetchMock.mock.calls[0][0]).not.toContain('signal');
+  });
+
+  it('should abort all requests of a scoped client', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const fetchMock = vi.fn((url: RequestInfo | URL, config?: RequestInit) => {
+      calls++;
+      if (calls === 1) {
+        return Promise.resolve(
+          new Response(JSON.stringify({ items: [{ id: 'a' }], totalPages: 2 }), {
+            headers: { 'Content-Type': 'application/json' },
+          })
+        );
+      }
+      return hangingFetch()(url, config);
+    });
+
+    const scoped = pb.withSignal(controller.signal);
+    const list = scoped
+      .collection('posts')
+      .getFullList({ fetch: fetchMock, batch: 1 });
+    const health = scoped.health.check({ fetch: hangingFetch() });
+
+    await vi.waitFor(() => expect(calls).toBe(2));
+    controller.abort();
+
+    expect((await list.catch((e) => e)).isAbort).toBe(true);
+    expect((await health.catch((e) => e)).isAbort).toBe(true);
+    expect(scoped.authStore).toBe(pb.authStore);
+    expect(scoped.collection('posts')).not.toBe(pb.collection('posts'));
+
+    // the parent client is not affected
+    const result = await pb.send('/api/test', {
+      fetch: vi.fn().mockResolvedValue(new Response('ok')),
+    });
+    expect(result).toBe('ok');
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { BaseAuthStore } from '../src/stores/BaseAuthStore';
+import { NotFoundError, ValidationError } from '../src/ClientResponseError';
+import { PocketBaseEmulator } from '../src/testing';
+import type { RecordSubscription } from '../src/types';
+
+describe('PocketBaseEmulator', () => {
+  let emulator: PocketBaseEmulator;
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    emulator = new PocketBaseEmulator({
+      collections: {
+        users: [{ id: 'user1', email: 'test@example.com', password: '1234567890' }],
+        posts: [
+          { title: 'b', views: 10, published: true },
+          { title: 'a', views: 5, published: false },
+          { title: 'c', views: 20, published: true },
+        ],
+      },
+    });
+    pb = new PocketBase('http://127.0.0.1:8090', new BaseAuthStore());
+    emulator.attach(pb);
+  });
+
+  it('should handle the records CRUD requests', async () => {
+    const created = await pb.collection('tasks').create({ name: 'test' });
+    expect(created).toMatchObject({
+      name: 'test',
+      collectionName: 'tasks',
+      collectionId: 'pbc_tasks',
+    });
+    expect(created.id).toHaveLength(15);
+
+    const updated = await pb.collection('tasks').update(created.id, { name: 'updated' });
+    expect(updated.name).toBe('updated');
+    expect((await pb.collection('tasks').getOne(created.id)).name).toBe('updated');
+
+    await pb.collection('tasks').delete(created.id);
+    await expect(pb.collection('tasks').getOne(created.id)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it('should paginate, sort and filter the list results', async () => {
+    const list = await pb.collection('posts').getList(1, 2, { sort: '-views' });
+    expect(list.items.map((r) => r.title)).toEqual(['c', 'b']);
+    expect(list).toMatchObject({ page: 1, perPage: 2, totalItems: 3, totalPages: 2 });
+
+    const filtered = await pb.collection('posts').getFullList({
+      filter: pb.filter('published = true && (views > {:min} || title ~ {:title})', {
+        min: 15,
+        title: 'b',
+      }),
+      sort: 'title',
+    });
+    expect(filtered.map((r) => r.title)).toEqual(['b', 'c']);
+  });
+
+  it('should filter by the array items and field modifiers', async () => {
+    await pb.collection('tasks').create({ name: 'First', tags: ['a', 'b'] });
+    await pb.collection('tasks').create({ name: 'second', tags: ['b'] });
+
+    const names = async (filter: string) =>
+      (await pb.collection('tasks').getFullList({ filter, sort: 'name' })).map((r) => r.name);
+
+    expect(await names("tags ?= 'a'")).toEqual(['First']);
+    expect(await names("tags:each = 'b'")).toEqual(['second']);
+    expect(await names('tags:length > 1')).toEqual(['First']);
+    expect(await names("name:lower = 'first' // comment")).toEqual(['First']);
+    await expect(names('name = (')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should keep the backslashes of the filter strings', async () => {
+    await pb.collection('tasks').create({ name: 'C:\\dir\\file' });
+    await pb.collection('tasks').create({ name: 'C:dir' });
+
+    const tasks = await pb.collection('tasks').getFullList({ filter: "name ~ 'C:\\dir'" });
+    expect(tasks.map((r) => r.name)).toEqual(['C:\\dir\\file']);
+  });
+
+  it('should return field errors for invalid records', async () => {
+    const [post] = emulator.records('posts');
+
+    const err = await pb
+      .collection('posts')
+      .create({ id: post.id, title: 'duplicate' })
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err.is('validation_not_unique')).toBe(true);
+  });
+
+  it('should issue decodable auth tokens', async () => {
+    const auth = await pb
+      .collection('users')
+      .authWithPassword('test@example.com', '1234567890');
+
+    expect(auth.record.id).toBe('user1');
+    expect(auth.record.password).toBeUndefined();
+    expect(pb.authStore.isValid).toBe(true);
+    expect(pb.authStore.record?.id).toBe('user1');
+
+    const refreshed = await pb.collection('users').authRefresh();
+    expect(refreshed.record.id).toBe('user1');
+
+    await expect(
+      pb.collection('users').authWithPassword('test@example.com', 'invalid')
+    ).rejects.toThrow('Failed to authenticate.');
+  });
+
+  it('should apply the batch requests as a transaction', async () => {
+    const [post] = emulator.records('posts');
+
+    const batch = pb.createBatch();
+    batch.collection('posts').update(post.id, { title: 'updated' });
+    batch.collection('posts').create({ title: 'new' });
+    const results = await batch.send();
+
+    expect(results.map((r) => r.status)).toEqual([200, 200]);
+    expect(emulator.records('posts')).toHaveLength(4);
+
+    const failing = pb.createBatch();
+    failing.collection('posts').delete(post.id);
+    failing.collection('posts').delete('missing');
+
+    await expect(failing.send()).rejects.toBeInstanceOf(ValidationError);
+    expect(emulator.records('posts')).toHaveLength(4);
+  });
+
+  it('should emit realtime events to the subscribers', async () => {
+    const events: RecordSubscription[] = [];
+    const unsubscribe = await pb
+      .collection('posts')
+      .subscribe('*', (e) => events.push(e));
+
+    const created = await pb.collection('posts').create({ title: 'new' });
+    await pb.collection('posts').delete(created.id);
+    await pb.collection('tasks').create({ name: 'other' });
+
+    expect(events.map((e) => `${e.action}:${e.record.title}`)).toEqual([
+      'create:new',
+      'delete:new',
+    ]);
+
+    await unsubscribe();
+    await pb.collection('posts').create({ title: 'ignored' });
+    expect(events).toHaveLength(2);
+  });
+
+  it('should work as the client transport', async () => {
+    const client = new PocketBase('http://127.0.0.1:8090', new BaseAuthStore(), {
+      transport: emulator,
+    });
+
+    expect(await client.collection('posts').getFullList()).toHaveLength(3);
+  });
+
+  it('should emit the realtime instrumentation events', async () => {
+    const types: string[] = [];
+    pb.instrumentation.on((e) => {
+      if (e.type.startsWith('realtime:')) {
+        types.push(e.type);
+      }
+    });
+
+    const unsubscribe = await pb.collection('posts').subscribe('*', () => {});
+    await pb.collection('posts').create({ title: 'new' });
+    await unsubscribe();
+
+    expect(types).toEqual(['realtime:connect', 'realtime:message', 'realtime:disconnect']);
+  });
+});
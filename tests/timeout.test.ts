@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+import { TimeoutError } from '../src/ClientResponseError';
+import { hangingFetch } from './helpers';
+
+describe('timeout', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  it('should reject with a timeout error', async () => {
+    const err = await pb
+      .send('/api/test', { fetch: hangingFetch(), timeout: 10 })
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(TimeoutError);
+    expect(err.isTimeout).toBe(true);
+    expect(err.isAbort).toBe(false);
+    expect(err.message).toBe('The request timed out.');
+  });
+
+  it('should apply the client timeout', async () => {
+    pb.timeout = 10;
+
+    const err = await pb.send('/api/test', { fetch: hangingFetch() }).catch((e) => e);
+
+    expect(err.isTimeout).toBe(true);
+  });
+
+  it('should keep manual aborts distinguishable', async () => {
+    const controller = new AbortController();
+    const promise = pb.send('/api/test', {
+      fetch: hangingFetch(),
+      timeout: 1000,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    const err = await promise.catch((e) => e);
+    expect(err.isAbort).toBe(true);
+    expect(err.isTimeout).toBe(false);
+  });
+
+  it('should compose the caller signal with the requestKey cancellation', async () => {
+    const fetchMock = hangingFetch();
+    const controller = new AbortController();
+    const promise = pb.send('/api/test', {
+      fetch: fetchMock,
+      requestKey: 'test',
+      signal: controller.signal,
+    });
+    pb.cancelRequest('test');
+
+    const err = await promise.catch((e) => e);
+    expect(err.isAbort).toBe(true);
+    expect(controller.signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+
+describe('transport', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  function testTransport() {
+    return {
+      fetch: vi.fn(async (url: string) => new Response(`transport ${url}`)),
+      eventSource: vi.fn((): EventSource => {
+        throw new Error('no realtime');
+      }),
+    };
+  }
+
+  it('should send the requests through the client transport', async () => {
+    const transport = testTransport();
+    const client = new PocketBase('http://127.0.0.1:8090', undefined, { transport });
+
+    expect(await client.send('/api/a')).toBe('transport http://127.0.0.1:8090/api/a');
+    expect(await client.health.check({ fetch: async () => new Response('custom') })).toBe(
+      'custom'
+    );
+    expect(transport.fetch).toHaveBeenCalledTimes(1);
+
+    // clones share the transport
+    expect(await client.asUser('token').send('/api/b')).toBe(
+      'transport http://127.0.0.1:8090/api/b'
+    );
+  });
+
+  it('should open the realtime stream through the client transport', async () => {
+    const transport = testTransport();
+    const client = new PocketBase('http://127.0.0.1:8090', undefined, { transport });
+
+    await expect(client.realtime.subscribe('posts', () => {})).rejects.toThrow('no realtime');
+    expect(transport.eventSource).toHaveBeenCalledWith('http://127.0.0.1:8090/api/realtime');
+  });
+
+  it('should let the middlewares replace the transport', async () => {
+    const transport = testTransport();
+    pb.use((request, next) => next({ ...request, transport }));
+
+    expect(await pb.send('/api/a')).toBe('transport http://127.0.0.1:8090/api/a');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PocketBase from '../src/PocketBase';
+
+describe('upload progress', () => {
+  let pb: PocketBase;
+
+  beforeEach(() => {
+    pb = new PocketBase('http://127.0.0.1:8090');
+  });
+
+  it('should report the multipart upload progress', async () => {
+    const received: { body?: string; contentType?: string | null } = {};
+    const fetchMock = vi.fn(async (_url: RequestInfo | URL, config?: RequestInit) => {
+      received.body = await new Response(config?.body).text();
+      received.contentType = new Headers(config?.headers).get('Content-Type');
+      return new Response(JSON.stringify({ id: 'a' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    });
+    const onUploadProgress = vi.fn();
+
+    await pb.collection('posts').create(
+      { title: 'test', file: new Blob(['x'.repeat(200000)]) },
+      { fetch: fetchMock, onUploadProgress }
+    );
+
+    const [loaded, total] = onUploadProgress.mock.calls.at(-1) as number[];
+    expect(onUploadProgress.mock.calls.length).toBeGreaterThan(0);
+    expect(loaded).toBe(total);
+    expect(total).toBe(received.body?.length);
+    expect(received.contentType).toContain('multipart/form-data; boundary=');
+    expect(received.body).toContain('x'.repeat(1000));
+    expect(fetchMock.mock.calls[0][0]).not.toContain('onUploadProgress');
+  });
+
+  it('should report the backup upload progress', async () => {
+    const fetchMock = vi.fn(async (_url: RequestInfo | URL, config?: RequestInit) => {
+      await new Response(config?.body).arrayBuffer();
+      return new Response(null, { status: 204 });
+    });
+    const onUploadProgress = vi.fn();
+
+    await pb.backups.upload(
+      { file: new Blob(['backup']) },
+      { fetch: fetchMock, onUploadProgress }
+    );
+
+    expect(onUploadProgress).toHaveBeenCalled();
+  });
+});